@@ -2,560 +2,678 @@ import * as React from 'react'
 import * as ReactDOM from 'react-dom'
 import {observable, computed, action, autorun, reaction} from 'mobx'
 import {observer} from 'mobx-react'
-import sample from 'lodash-es/sample'
-import sampleSize from 'lodash-es/sampleSize'
-
-declare const require: any
-const TinyQueue = require('tinyqueue')
+import {Game, Hex, Cell, Command, SavedGame, Campaign, Replay, ReplayPlayer, RunSummary, totalStats, dailyDateFor, dailyShareText, placementHex, BoardLayout, EditTool, parseBoard, TERRAIN_TYPES, TERRAIN_KINDS, ENEMY_TYPES, ENEMY_KINDS, TACTICS, Ability, AbilityKind, ABILITIES, ABILITY_KINDS, ITEM_KINDS, enemyKindsUpTo, Solver} from './engine'
+import {saveGame, loadSavedGame, clearSavedGame, loadSettings, saveSettings, loadLeaderboard, leaderboardRank, recordRun, DailyResult, loadDailyResult, saveDailyResult} from './saves'
+import {findCampaign} from './campaigns'
+import {replayToString, replayFromString, downloadReplay} from './replays'
+import {Role, THEMES, findTheme, GLYPHS, PATTERNS} from './themes'
+import {describeTurn} from './announcements'
 
 declare const window: any
 
-const COLOR_EMPTY = "#333"
-const COLOR_PLAYER = "lightgreen"
-const COLOR_BARRIER = "cyan"
-const COLOR_PILLAR = "orange"
-const COLOR_TELEPORT = "yellow"
-const COLOR_EXIT = "violet"
-const COLOR_ENEMY = "red"
+// Keys for stepping in each of Hex.directions, as they appear on screen with flat-topped hexes:
+// A down-left, S down, D down-right, E up-right, W up, Q up-left
+const DIRECTION_KEYS = ['a', 's', 'd', 'e', 'w', 'q']
 
-const TELEPORT_RANGE = 8
-const REMINDER_FLOOR = 10
-const FINAL_FLOOR = 12
+// How long a turn's movement takes to play out, and how long a capture is shown before the end screen
+const TURN_DURATION = 200
+const CAPTURE_DURATION = 700
+// Moves made while a turn is still animating wait their turn, up to this many
+const MAX_QUEUED_INPUTS = 3
 
 const HEART: [number,number,number][] = [[0,0,0],[-1,0,1],[0,-1,1],[1,-1,0],[1,0,-1],[0,1,-1],[-1,1,0],[-1,-1,2],[0,-2,2],[1,-2,1],[2,-2,0],[2,-1,-1],[2,0,-2],[1,1,-2],[0,2,-2],[-1,2,-1],[-2,2,0],[-2,1,1],[-2,-1,3],[-1,-2,3],[0,-3,3],[1,-3,2],[2,-3,1],[3,-3,0],[3,-2,-1],[3,-1,-2],[3,0,-3],[2,1,-3],[1,2,-3],[0,3,-3],[-1,3,-2],[-2,3,-1],[-3,3,0],[-3,2,1],[-3,1,2],[-2,-2,4],[-1,-3,4],[0,-4,4],[1,-4,3],[2,-4,2],[4,-1,-3],[4,0,-4],[3,1,-4],[-2,4,-2],[-3,4,-1],[-4,4,0],[-4,3,1],[-4,2,2]]
 
-class PriorityQueue<T> {
-    queue: any
-    constructor() {
-        this.queue = new TinyQueue([], (a: any, b: any) => a.priority - b.priority)
-    }
-
-    push(value: T, priority: number) {
-        this.queue.push({ value, priority })
-    }
-
-    pop(): T {
-        return this.queue.pop().value
+function hexagonPoints(cx: number, cy: number, size: number) {
+    const path = []
+    for (var i = 0; i < 6; i++) {
+        const angle = Math.PI/180 * 60*i
+        path.push(Math.round(cx+size*Math.cos(angle))+","+Math.round(cy+size*Math.sin(angle)))
     }
+    return path
+}
 
-    get length(): number {
-        return this.queue.length
-    }
+// Marks for a tile beyond its fill color: a label read out by screen readers, and a glyph or fill pattern
+// so that it can be told apart without relying on color
+interface TileMarks {
+    label?: string
+    glyph?: string
+    pattern?: string
 }
 
-class Hex {
-    static directions = [
-        new Hex(+1, -1, 0), new Hex(+1, 0, -1), new Hex(0, +1, -1),
-        new Hex(-1, +1, 0), new Hex(-1, 0, +1), new Hex(0, -1, +1)
+function renderMarks(view: GameView, points: string, x: number, y: number, marks: TileMarks) {
+    return [
+        marks.pattern && <polygon points={points} fill={`url(#pattern-${marks.pattern})`} className="overlay"/>,
+        marks.glyph && <text x={x} y={y} className="glyph" fontSize={view.hexRadius} textAnchor="middle" dy="0.35em">{marks.glyph}</text>
     ]
+}
 
-    static zero = new Hex(0, 0, 0)
-
-    static ring(center: Hex, radius: number): Hex[] {
-        if (radius == 0) return [center]
+class Tile extends React.Component<TileMarks & { fill: string, cell: Cell, view: GameView, opacity?: number, stroke?: string, strokeWidth?: number, className?: string, style?: any }> {
+    render() {
+        const {fill, cell, view, label, glyph, pattern, ...rest} = this.props
+        const points = view.hexToPolygon(cell.hex)
+        const polygon = <polygon points={points} fill={fill} stroke={view.tileStroke} strokeWidth={view.hexRadius/8} onMouseDown={e => view.onMouseDown(cell)} onMouseMove={e => view.onMouseMove(cell)} onMouseUp={e => view.onMouseUp(cell)} {...rest}/>
+        if (!label && !glyph && !pattern) return polygon
 
-        const results: Hex[] = []
-        let hex = center.add(Hex.directions[4].scale(radius))
-        for (let i = 0; i < 6; i++) {
-            for (let j = 0; j < radius; j++) {
-                results.push(hex)
-                hex = hex.neighbor(i)
-            }
-        }
-        return results
+        const [x, y] = view.hexToPixel(cell.hex)
+        return <g role={label && "img"} aria-label={label}>
+            {polygon}
+            {renderMarks(view, points, x, y, this.props)}
+        </g>
     }
+}
 
-    static rings(center: Hex, startRadius: number, endRadius: number) {
-        const results = []
-        for (let i = startRadius; i < endRadius; i++) {
-            results.push(...Hex.ring(center, i))
-        }
-        return results
+// A tile for something that moves, which glides between cells instead of jumping when animations are on
+class Mover extends React.Component<TileMarks & { fill: string, cell: Cell, view: GameView, opacity?: number }> {
+    render() {
+        const {fill, cell, view, opacity, label} = this.props
+        const [x, y] = view.hexToPixel(cell.hex)
+        const points = hexagonPoints(0, 0, view.hexRadius).join(" ")
+        return <g role={label && "img"} aria-label={label} style={{ transform: `translate(${x}px, ${y}px)` }} className={view.animationsEnabled ? "mover animated" : "mover"}>
+            <polygon points={points} fill={fill} opacity={opacity} stroke={view.tileStroke} strokeWidth={view.hexRadius/8} onMouseDown={e => view.onMouseDown(cell)} onMouseMove={e => view.onMouseMove(cell)} onMouseUp={e => view.onMouseUp(cell)}/>
+            {renderMarks(view, points, 0, 0, this.props)}
+        </g>
     }
+}
 
-    static distance(a: Hex, b: Hex) {
-        return (Math.abs(a.q-b.q) + Math.abs(a.r-b.r) + Math.abs(a.s-b.s))/2
-    }
+// One-off animations that play over the board after a turn. Flashes are drawn in the color of `role`.
+interface Effect {
+    kind: 'weave'|'flash'|'capture'
+    cells: Cell[]
+    role?: Role
+}
 
-    static lineBetween(a: Hex, b: Hex) {
-        function lerp(a: number, b: number, t: number) {
-            return a + (b - a) * t
-        }
+const Span = (props: { color: string, children: any }) => {
+    return <span style={{ color: props.color }}>{props.children}</span>
+}
 
-        function cubeLerp(a: Hex, b: Hex, t: number) {
-            const x = lerp(a.q, b.q, t)
-            const y = lerp(a.r, b.r, t)
-            const z = lerp(a.s, b.s, t)
-
-            let rx = Math.round(x)
-            let ry = Math.round(y)
-            let rz = Math.round(z)
-
-            var x_diff = Math.abs(rx - x)
-            var y_diff = Math.abs(ry - y)
-            var z_diff = Math.abs(rz - z)
-        
-            if (x_diff > y_diff && x_diff > z_diff)
-                rx = -ry-rz
-            else if (y_diff > z_diff)
-                ry = -rx-rz
-            else
-                rz = -rx-ry
-        
-            return new Hex(rx, ry, rz)            
-        }
+// Board colors for [text](role) markup in campaign story text
+const STORY_ROLES: { [role: string]: Role } = {
+    player: 'player',
+    enemy: 'chaser',
+    exit: 'exit',
+    pillar: 'pillar',
+    barrier: 'barrier',
+    water: 'water',
+    crystal: 'teleport'
+}
 
-        const distance = Hex.distance(a, b)
-        const line = []
-        for (let i = 0; i < distance; i++) {
-            line.push(cubeLerp(a, b, 1/distance * i))
-        }
-        line.push(b)
+// Editor palette, in the order the buttons appear. Each tool is drawn in the color of what it paints.
+const EDIT_TOOLS: { tool: EditTool, label: string }[] = TERRAIN_KINDS.map(kind =>
+    ({ tool: kind as EditTool, label: TERRAIN_TYPES[kind].name })
+).concat([
+    { tool: 'player' as EditTool, label: "Player" },
+    { tool: 'exit' as EditTool, label: "Exit" }
+]).concat(ITEM_KINDS.map(kind => {
+    const pickup = ABILITIES[kind].pickup as string
+    return { tool: kind as EditTool, label: pickup[0].toUpperCase() + pickup.slice(1) }
+})).concat(ENEMY_KINDS.map(kind => ({ tool: kind as EditTool, label: ENEMY_TYPES[kind].name[0].toUpperCase() + ENEMY_TYPES[kind].name.slice(1) })))
+
+function formatDuration(ms: number): string {
+    const seconds = Math.floor(ms / 1000)
+    const pad = (n: number) => (n < 10 ? "0" : "") + n
+    const minutes = Math.floor(seconds / 60)
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}:${pad(minutes % 60)}:${pad(seconds % 60)}` : `${minutes}:${pad(seconds % 60)}`
+}
 
-        return line
-    }
+function renderStoryText(text: string, view: GameView) {
+    return text.split(/(\[[^\]]+\]\(\w+\))/).map(part => {
+        const match = /^\[([^\]]+)\]\((\w+)\)$/.exec(part)
+        return match ? <Span color={STORY_ROLES[match[2]] ? view.color(STORY_ROLES[match[2]]) : "white"}>{match[1]}</Span> : part
+    })
+}
 
-    readonly q: number
-    readonly r: number
-    readonly s: number
+@observer
+class GameView extends React.Component<{ width: number, height: number, seed?: number, floor?: number, campaign?: Campaign, saved?: SavedGame, daily?: string }> {
+    // Swapped out for the replay's own game while one is being watched
+    @observable.ref game: Game = new Game({ seed: this.props.seed, floor: this.props.floor, campaign: this.props.campaign, saved: this.props.saved, daily: this.props.daily })
+    disposeAutosave?: () => void
+    disposeDailyResult?: () => void
+    disposeHighContrast?: () => void
+    // Extent of the board's tiles in units of hexRadius, relative to Hex.zero
+    @computed get boardBounds() {
+        const xs = this.game.boardHexes.map(hex => hex.r * 3/2)
+        const ys = this.game.boardHexes.map(hex => (hex.q + hex.r/2) * Math.sqrt(3))
+        return { minX: Math.min(...xs) - 1, maxX: Math.max(...xs) + 1, minY: Math.min(...ys) - Math.sqrt(3)/2, maxY: Math.max(...ys) + Math.sqrt(3)/2 }
+    }
+    // Fit the board to the viewport, with a hex of margin all round
+    @computed get hexRadius() {
+        const {minX, maxX, minY, maxY} = this.boardBounds
+        return Math.round(Math.min((this.props.width-50)/(maxX-minX+2), (this.props.height-250)/(maxY-minY+2)))
+    }
+    @computed get boardWidth() { return this.hexRadius*(this.boardBounds.maxX-this.boardBounds.minX+2) }
+    @computed get boardHeight() { return this.hexRadius*(this.boardBounds.maxY-this.boardBounds.minY+2) }
+    @computed get boardCenterX() { return this.hexRadius*(1-this.boardBounds.minX) }
+    @computed get boardCenterY() { return this.hexRadius*(1-this.boardBounds.minY) }
+
+    @observable selectedAbility?: AbilityKind
+    @observable isHelping: boolean = false
 
-    constructor(q: number, r: number, s: number) {
-        console.assert(q + r + s == 0)
-        this.q = q
-        this.r = r
-        this.s = s
-    }
+    @observable isMouseDown: boolean = false
+    @observable currentSelection: Cell[] = []
+    @observable pathTarget: Hex
 
-    add(b: Hex) {
-        return new Hex(this.q+b.q, this.r+b.r, this.s+b.s)
+    // Cells picked so far for the selected ability, e.g. where a barrier starts
+    @observable abilityTargets: Cell[] = []
+    @observable cursor?: Cell
+    @observable hint?: Command
+    // Whether the cursor was last moved from the keyboard, in which case it gets drawn
+    @observable isKeyboardCursor: boolean = false
+    svg: SVGSVGElement|null = null
+
+    @observable isEditing: boolean = false
+    @observable editTool: EditTool = 'pillar'
+    // The board being test-played from the editor, to go back to afterwards
+    @observable testBoard?: BoardLayout
+    @observable boardText: string = ""
+    @observable boardError?: string
+    // What the solver made of the board in the editor, until it's changed
+    @observable boardCheck?: string
+
+    @observable.ref replayPlayer?: ReplayPlayer
+    @observable isReplayPlaying: boolean = false
+    @observable replayText: string = ""
+    @observable replayError?: string
+    liveGame?: Game
+    replayTimer?: number
+
+    @observable.ref leaderboard: RunSummary[] = loadLeaderboard()
+    @observable isShowingSummary: boolean = false
+    @observable.ref dailyResult?: DailyResult = this.game.dailyDate !== undefined ? loadDailyResult(this.game.dailyDate) : undefined
+
+    settings = loadSettings()
+    @observable animationsEnabled: boolean = this.settings.animations
+    @observable themeId: string = this.settings.theme
+    @observable symbolsEnabled: boolean = this.settings.symbols
+    @observable highContrast: boolean = this.settings.highContrast
+    // Latest turn result, read out by screen readers
+    @observable announcement: string = ""
+    // Whether the last turn is still playing out; input arriving meanwhile is queued
+    @observable isAnimating: boolean = false
+    @observable.shallow effects: Effect[] = []
+    inputQueue: Command[] = []
+    animationTimer?: number
+    // Bumped every turn so effect elements are recreated and their animations restart
+    effectId: number = 0
+
+    componentDidMount() {
+        window.addEventListener('keydown', this.onKeyDown)
+        // Boards in the editor aren't part of the run, so they aren't saved over it
+        this.disposeAutosave = autorun(() => {
+            if (!this.isEditing && !this.testBoard && !this.replayPlayer) saveGame(this.game)
+        })
+        // High contrast restyles the whole page, not just the board
+        this.disposeHighContrast = autorun(() => document.documentElement.classList.toggle('highContrast', this.highContrast))
+        this.claimDaily()
+        // The claimed daily attempt is scored where it first ends, even if the ending is undone afterwards
+        this.disposeDailyResult = reaction(() => this.game.state, state => {
+            const {game, dailyResult} = this
+            if (game.mode !== 'daily' || game.dailyDate === undefined || this.replayPlayer || this.testBoard) return
+            if ((state === 'failure' || state === 'stuck' || state === 'final') && this.isScoredDaily && !(dailyResult && dailyResult.run)) {
+                const run = game.summarizeRun()
+                this.dailyResult = { date: game.dailyDate, startedAt: game.startedAt, run: run, share: dailyShareText(run, state, game.campaign.floors.length) }
+                saveDailyResult(this.dailyResult)
+            }
+        })
     }
 
-    scale(amount: number) {
-        return new Hex(this.q*amount, this.r*amount, this.s*amount)
-    }
+    componentWillUnmount() {
+        window.removeEventListener('keydown', this.onKeyDown)
+        if (this.disposeAutosave) this.disposeAutosave()
+        if (this.disposeDailyResult) this.disposeDailyResult()
+        if (this.disposeHighContrast) this.disposeHighContrast()
+        this.pauseReplay()
+        this.stopAnimation()
+    }
+
+    @action.bound onKeyDown(e: KeyboardEvent) {
+        const key = e.key.toLowerCase()
+        // Leave typing and picking options in form fields alone
+        const target = e.target as HTMLElement
+        if (this.isEditing || ['INPUT', 'SELECT', 'TEXTAREA'].indexOf(target.tagName) !== -1 || target.isContentEditable) return
+
+        if (this.replayPlayer) {
+            if (key === 'arrowleft') this.stepReplay(-1)
+            else if (key === 'arrowright') this.stepReplay(1)
+            else if (key === ' ') this.toggleReplayPlaying()
+            else if (key === 'escape') this.closeReplay()
+            else return
+            e.preventDefault()
+            return
+        }
 
-    neighbor(index: number) {
-        return this.add(Hex.directions[index])
-    }
+        if (e.ctrlKey || e.metaKey) {
+            if (key === 'z' && !e.shiftKey) {
+                this.undo()
+                e.preventDefault()
+            } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+                this.redo()
+                e.preventDefault()
+            }
+            return
+        }
 
-    equals(b: Hex) {
-        return this.key === b.key
-    }
+        if (this.game.state !== 'game' || e.altKey) return
 
-    get neighbors() {
-        return Hex.directions.map(hex => this.add(hex))
-    }
+        const direction = DIRECTION_KEYS.indexOf(key)
+        const shortcut = ABILITY_KINDS.find(kind => ABILITIES[kind].key === key)
+        if (direction !== -1) {
+            if (this.selectedAbility === undefined) {
+                this.hint = undefined
+                this.play({ type: 'move', hex: this.game.playerCell.hex.neighbor(direction) })
+            } else {
+                this.moveCursor(direction)
+            }
+        } else if (shortcut && (this.selectedAbility === shortcut || ABILITIES[shortcut].isReady(this.game))) {
+            this.toggleAbility(shortcut)
+            this.placeKeyboardCursor()
+        } else if ((key === 'enter' || key === ' ') && this.selectedAbility !== undefined && this.cursor) {
+            this.onMouseDown(this.cursor)
+            this.isMouseDown = false
+        } else if (key === 'escape') {
+            this.selectedAbility = undefined
+            this.abilityTargets = []
+            this.isKeyboardCursor = false
+        } else {
+            return
+        }
 
-    get key() {
-        return `${this.q},${this.r},${this.s}`        
+        e.preventDefault()
     }
-}
-
-class HexGrid<T> {
-    @observable cells: Map<string, T> = new Map()
-
-    constructor() {        
-    }    
 
-    get(hex: Hex): T {
-        return this.cells.get(hex.key) as T
+    @action.bound placeKeyboardCursor() {
+        this.cursor = this.game.playerCell
+        this.isKeyboardCursor = this.selectedAbility !== undefined
     }
 
-    set(hex: Hex, value: T) {
-        return this.cells.set(hex.key, value)
+    @action.bound moveCursor(direction: number) {
+        const from = this.cursor || this.game.playerCell
+        const next = this.game.hexGrid.get(from.hex.neighbor(direction))
+        if (next) this.cursor = next
+        this.isKeyboardCursor = true
     }
 
-    forEach(callback: (hex: Hex) => void) {
-        return this.cells.forEach((val, key) => {
-            const [q, r, s] = key.split(",").map(s => parseInt(s))
-            callback(new Hex(q, r, s))
-        })
-    }
-}
+    // Board cell under a point on the screen, for touch input where events don't target individual tiles
+    cellAt(clientX: number, clientY: number): Cell|undefined {
+        if (!this.svg) return undefined
 
-function hexagonPoints(cx: number, cy: number, size: number) {
-    const path = []
-    for (var i = 0; i < 6; i++) {
-        const angle = Math.PI/180 * 60*i
-        path.push(Math.round(cx+size*Math.cos(angle))+","+Math.round(cy+size*Math.sin(angle)))
+        const rect = this.svg.getBoundingClientRect()
+        const x = (clientX - rect.left - this.boardCenterX) / this.hexRadius
+        const y = (clientY - rect.top - this.boardCenterY) / this.hexRadius
+        const r = x * 2/3
+        const q = y / Math.sqrt(3) - r/2
+        return this.game.hexGrid.get(Hex.round(q, r, -q-r))
     }
-    return path
-}
 
-class Cell {
-    game: Game
-    hex: Hex
-    @observable color = COLOR_EMPTY
-
-    constructor(game: Game, hex: Hex) {
-        this.game = game
-        this.hex = hex
-    }
+    @action.bound onTouchStart(e: React.TouchEvent<SVGSVGElement>) {
+        const touch = e.touches[0]
+        const cell = touch && this.cellAt(touch.clientX, touch.clientY)
+        e.preventDefault()
+        if (!cell) return
 
-    @computed get neighbors(): Cell[] {
-        return this.hex.neighbors.map(hex => this.game.hexGrid.get(hex)).filter(cell => cell)
+        this.onMouseMove(cell)
+        this.onMouseDown(cell)
     }
 
-    @computed get isPathable(): boolean {
-        return this.color === COLOR_EMPTY
+    @action.bound onTouchMove(e: React.TouchEvent<SVGSVGElement>) {
+        const touch = e.touches[0]
+        const cell = touch && this.cellAt(touch.clientX, touch.clientY)
+        e.preventDefault()
+        if (cell) this.onMouseMove(cell)
     }
 
-    @computed get isEmpty(): boolean {
-        return this.isPathable && this !== this.game.playerCell && !this.game.enemies.some(enemy => enemy.cell === this)
+    @action.bound onTouchEnd(e: React.TouchEvent<SVGSVGElement>) {
+        e.preventDefault()
+        if (this.cursor) this.onMouseUp(this.cursor)
     }
 
-    @computed get isSafe(): boolean {
-        for (let enemy of this.game.enemies) {
-            if (enemy.cell.neighbors.indexOf(this) !== -1)
-                return false
+    // Take a turn, queueing it instead if the previous one is still animating
+    @action.bound play(command: Command): boolean {
+        if (this.isAnimating) {
+            if (this.inputQueue.length < MAX_QUEUED_INPUTS)
+                this.inputQueue.push(command)
+            return true
         }
 
+        const {game} = this
+        // What the ability touches has to be worked out before it changes the board
+        const targets = command.type === 'ability' ? command.targets.map(hex => game.hexGrid.get(hex)) : []
+        const affected = command.type === 'ability' && targets.every(cell => !!cell) ? ABILITIES[command.ability].preview(game, targets) : []
+        if (!game.execute(command)) return false
+        this.announcement = describeTurn(game, command, game.history.past[game.history.past.length-1])
+        if (!this.animationsEnabled) return true
+
+        const effects: Effect[] = []
+        if (command.type === 'ability')
+            effects.push({ kind: command.ability === 'barrier' ? 'weave' : 'flash', cells: affected, role: command.ability })
+        if (game.state === 'failure')
+            effects.push({ kind: 'capture', cells: [game.playerCell] })
+
+        this.effectId += 1
+        this.effects = effects
+        this.isAnimating = true
+        this.animationTimer = window.setTimeout(this.finishAnimation, game.state === 'failure' ? CAPTURE_DURATION : TURN_DURATION)
         return true
     }
 
-    circle(radius: number): Cell[] {
-        return Hex.rings(this.hex, 0, radius).map(hex => this.game.hexGrid.get(hex)).filter(cell => cell)
+    @action.bound finishAnimation() {
+        this.animationTimer = undefined
+        this.isAnimating = false
+        const next = this.inputQueue.shift()
+        if (next && this.game.state === 'game') this.play(next)
+        else this.inputQueue = []
     }
 
-    lineTo(b: Cell) {
-        const cells = []
-        for (let hex of Hex.lineBetween(this.hex, b.hex)) {
-            const cell = this.game.hexGrid.get(hex)
-            if (cell && cell.isPathable) {
-                cells.push(cell)
-            } else break;
-        }
-        return cells
+    @action.bound stopAnimation() {
+        if (this.animationTimer !== undefined) window.clearTimeout(this.animationTimer)
+        this.animationTimer = undefined
+        this.isAnimating = false
+        this.inputQueue = []
+        this.effects = []
     }
 
-    pathTo(b: Cell) {
-        return this.game.pathBetween(this, b)
+    saveViewSettings() {
+        saveSettings({ animations: this.animationsEnabled, theme: this.themeId, symbols: this.symbolsEnabled, highContrast: this.highContrast })
     }
-}
-
-// player is green tile
-// moves towards exit (white tile?)
-// red tile enemies
-// create blue tile barriers to block path of enemies
 
-class Enemy {
-    game: Game
-    @observable cell: Cell
-
-    constructor(game: Game, cell: Cell) {
-        this.game = game
-        this.cell = cell
+    @action.bound toggleAnimations() {
+        this.animationsEnabled = !this.animationsEnabled
+        this.saveViewSettings()
+        if (!this.animationsEnabled) this.stopAnimation()
     }
 
-    @computed get isDefeated(): boolean {
-        return this.cell.pathTo(this.game.playerCell).length == 0
+    @action.bound setTheme(id: string) {
+        this.themeId = id
+        this.saveViewSettings()
     }
-}
 
-class Game {
-    @observable playerCell: Cell
-    @observable exitCell: Cell
-    @observable teleportCrystal?: Cell
-    @observable enemies: Enemy[] = []
-    @observable numTeleports: number = 0
-    @observable floor: number
-    @observable state: 'game'|'success'|'failure'|'stuck'|'final' = 'game'
-
-    @computed get numEnemies(): number {
-        return this.floor
+    @action.bound toggleSymbols() {
+        this.symbolsEnabled = !this.symbolsEnabled
+        this.saveViewSettings()
     }
 
-    @computed get ringSize() { return 8 }
-
-    @computed get ringHexes() {
-        const {ringSize} = this
-        return Hex.rings(Hex.zero, 0, ringSize)
+    @action.bound toggleHighContrast() {
+        this.highContrast = !this.highContrast
+        this.saveViewSettings()
     }
 
-    @computed get cells(): Cell[] {
-        return this.ringHexes.map(hex => this.hexGrid.get(hex) as Cell)
+    @computed get theme() {
+        return findTheme(this.themeId)
     }
 
-    @computed get isSafe(): boolean {
-        return this.enemies.every(enemy => enemy.isDefeated)
+    color(role: Role): string {
+        if (this.highContrast && role === 'empty') return "#000"
+        return this.theme.colors[role]
     }
 
-    @computed get isEndgame(): boolean {
-        return this.floor === FINAL_FLOOR
+    @computed get tileStroke(): string {
+        return this.highContrast ? "#fff" : "#000"
     }
 
-    hexGrid: HexGrid<Cell>
-    constructor() {
-        reaction(
-            () => this.floor,
-            this.setupBoard
-        )
-
-        this.hexGrid = new HexGrid<Cell>()
-        this.ringHexes.forEach(hex => this.hexGrid.set(hex, new Cell(this, hex)))
-
-        this.resetGame()
+    marks(role: Role, label?: string): TileMarks {
+        return { label: label, glyph: this.symbolsEnabled ? GLYPHS[role] : undefined, pattern: this.symbolsEnabled ? PATTERNS[role] : undefined }
     }
 
-    @action.bound resetGame() {
-        this.floor = 1
-        this.numTeleports = 0
-        this.setupBoard()
+    @action.bound undo() {
+        this.stopAnimation()
+        this.game.history.undo()
+        this.announcement = "Turn undone."
+        this.selectedAbility = undefined
+        this.abilityTargets = []
+        this.hint = undefined
     }
 
-    @action.bound setupBoard() {
-        this.cells.forEach(cell => cell.color = COLOR_EMPTY)
-        this.teleportCrystal = undefined
-        this.exitCell = this.hexGrid.get(new Hex(-6, 0, 6))
-        this.playerCell = this.hexGrid.get(new Hex(6, 0, -6))
-        this.enemies = []
-
-        if (this.isEndgame) {
-            this.exitCell = this.hexGrid.get(new Hex(0, 0, 0))
-            return
-        }
-
-        const pillarHexes = Hex.rings(Hex.zero, sample([0, 1]) as number, sample([2, 3]) as number)
-        pillarHexes.forEach(hex => this.hexGrid.get(hex).color = COLOR_PILLAR)
-
-        const playerNeighbors = this.playerCell.neighbors
-        let spawnableCells = this.cells.filter(cell => cell.isEmpty && cell !== this.exitCell && playerNeighbors.indexOf(cell) === -1)
-        spawnableCells = sampleSize(spawnableCells, spawnableCells.length)
-
-        this.teleportCrystal = spawnableCells.pop()
-        for (let i = 0; i < this.numEnemies; i++) {
-            const cell = spawnableCells.pop()
-            if (cell !== undefined)
-                this.enemies.push(new Enemy(this, cell))
-        }
+    @action.bound redo() {
+        this.stopAnimation()
+        this.game.history.redo()
+        this.announcement = "Turn redone."
+        this.selectedAbility = undefined
+        this.abilityTargets = []
+        this.hint = undefined
     }
 
-    @action.bound nextFloor() {
-        if (this.state == 'success')
-            this.floor += 1
-        else {
-            this.resetGame()
-        }
-        this.state = 'game'
+    // Put an ended run on the leaderboard as the player moves on from it, so undoing the ending can't count twice
+    @action.bound recordEndedRun() {
+        const {state} = this.game
+        // Daily runs are scored separately, once per day
+        if (this.game.mode === 'daily') return
+        if (state === 'failure' || state === 'stuck' || state === 'final')
+            this.leaderboard = recordRun(this.game.summarizeRun())
     }
 
-    pathBetween(start: Cell, goal: Cell): Cell[] {
-        const frontier = new PriorityQueue<Cell>()
-        frontier.push(start, 0)
-        const cameFrom: Map<Cell, Cell|undefined> = new Map()
-        const costSoFar: Map<Cell, number> = new Map()
-        cameFrom.set(start, undefined)
-        costSoFar.set(start, 0)
-
-        while (frontier.length > 0) {
-            const current = frontier.pop()
-
-            if (current === goal)
-                break;
-
-            current.neighbors.forEach(nextCell => {
-                if (nextCell !== start && nextCell !== goal && !nextCell.isPathable) return
-
-                const newCost = (costSoFar.get(current)||0) + 1
-                const prevCost = costSoFar.get(nextCell)
-                if (prevCost === undefined || newCost < prevCost) {
-                    costSoFar.set(nextCell, newCost)
-                    frontier.push(nextCell, newCost)
-                    cameFrom.set(nextCell, current)
-                }
-            })
-        }
-
-        if (!cameFrom.has(goal))
-            return []
-        else {
-            const path = []
-            let current = goal
-            while (current != start) {
-                path.push(current)
-                current = cameFrom.get(current) as Cell
-            }
-            path.reverse()
-            return path
-        }
+    @action.bound restart() {
+        this.recordEndedRun()
+        this.isShowingSummary = false
+        this.game.nextFloor()
     }
 
-    @action.bound placeBarrier(start: Cell, end: Cell) {
-        start.lineTo(end).forEach(cell => {
-            cell.color = COLOR_BARRIER
-        })
+    @action.bound startDaily() {
+        if (this.isEditing || this.testBoard) this.closeEditor()
+        this.recordEndedRun()
+        this.isShowingSummary = false
+        const date = dailyDateFor(new Date())
+        this.dailyResult = loadDailyResult(date)
+        this.game.startDaily(date)
+        this.claimDaily()
+        this.selectedAbility = undefined
+        this.abilityTargets = []
+        this.isHelping = false
+        this.hint = undefined
     }
 
-    endTurn() {
-        if (this.playerCell === this.teleportCrystal) {
-            this.numTeleports += 1
-            this.teleportCrystal = undefined
-        }
-
-        if (this.playerCell === this.exitCell) {
-            this.state = this.isEndgame ? 'final' : 'success'
-            return
-        }
+    // The day's first daily run is the scored one from the moment it starts, so walking away from a
+    // bad start doesn't earn a fresh attempt
+    @action.bound claimDaily() {
+        const {game} = this
+        if (game.mode !== 'daily' || game.dailyDate === undefined || this.dailyResult) return
+        this.dailyResult = { date: game.dailyDate, startedAt: game.startedAt }
+        saveDailyResult(this.dailyResult)
+    }
 
-        for (let enemy of this.enemies) {
-            const path = this.pathBetween(enemy.cell, this.playerCell)
-            if (path.length && (path[0] === this.playerCell || path[0].isEmpty))
-                enemy.cell = path[0]
+    // Whether the daily run in progress is the day's scored attempt
+    @computed get isScoredDaily(): boolean {
+        return this.game.mode === 'daily' && (!this.dailyResult || this.dailyResult.startedAt === this.game.startedAt)
+    }
 
-            if (enemy.cell === this.playerCell) {
-                this.state = 'failure'
-                return
-            }
-        }
+    renderDailyResult() {
+        const {game, dailyResult} = this
+        if (game.mode !== 'daily') return
+        if (!this.isScoredDaily)
+            return <p className="summary">Practice run &middot; {dailyResult && dailyResult.run ? `today's score is already in: ${dailyResult.run.score}` : "today's attempt was already played"}</p>
+        const share = dailyResult && dailyResult.share
+        if (share === undefined) return
 
-        if (this.numTeleports === 0 && this.pathBetween(this.playerCell, this.exitCell).length === 0) {
-            this.state = 'stuck'
-            return
-        }
+        return <div className="daily">
+            <pre>{share}</pre>
+            <button onClick={e => window.navigator.clipboard && window.navigator.clipboard.writeText(share)}>Copy result</button>
+        </div>
     }
-}
 
-class Tile extends React.Component<{ fill: string, cell: Cell, view: GameView, opacity?: number, stroke?: string, strokeWidth?: number }> {
-    render() {
-        const {fill, cell, view, ...rest} = this.props
-        return <polygon points={view.hexToPolygon(cell.hex)} fill={fill} stroke="#000" strokeWidth={view.hexRadius/8} onMouseDown={e => view.onMouseDown(cell)} onMouseMove={e => view.onMouseMove(cell)} onMouseUp={e => view.onMouseUp(cell)} {...rest}/>
+    @action.bound newRun() {
+        if (this.isEditing || this.testBoard) this.closeEditor()
+        this.recordEndedRun()
+        this.isShowingSummary = false
+        clearSavedGame()
+        this.game.newRun()
+        this.selectedAbility = undefined
+        this.abilityTargets = []
+        this.isHelping = false
+        this.hint = undefined
     }
-}
-
-const Span = (props: { color: string, children: any }) => {
-    return <span style={{ color: props.color }}>{props.children}</span>
-}
 
-@observer
-class GameView extends React.Component<{ width: number, height: number }> {
-    game: Game = new Game()
-    @computed get hexRadius() { return Math.round(Math.min(this.props.width-50, this.props.height-250)/((this.game.ringSize+5)*2)) }
-    @computed get boardWidth() { return this.hexRadius*(this.game.ringSize+5)*2 }
-    @computed get boardHeight() { return this.hexRadius*(this.game.ringSize+6)*2 }
-    @computed get boardCenterX() { return this.boardWidth/2 }
-    @computed get boardCenterY() { return this.boardHeight/2 }
-
-    @observable selectedAbility?: 'barrier'|'teleport'
-    @observable isHelping: boolean = false
-
-    @observable isMouseDown: boolean = false
-    @observable currentSelection: Cell[] = []
-    @observable pathTarget: Hex
+    @action.bound toggleHint() {
+        this.hint = this.hint ? undefined : this.game.hint()
+    }
 
-    @observable barrierStart?: Cell
-    @observable cursor?: Cell
+    // Add a target for the selected ability, using it once it has all it needs
+    @action.bound pickTarget(cell: Cell) {
+        if (this.selectedAbility === undefined) return
+        const ability = ABILITIES[this.selectedAbility]
+        const targets = this.abilityTargets.concat([cell])
+        if (targets.length < ability.targets) {
+            this.abilityTargets = targets
+            return
+        }
 
-    @action.bound finishBarrier() {
-        if (!this.barrierStart || !this.cursor) return
-        this.game.placeBarrier(this.barrierStart, this.cursor)
-        this.barrierStart = undefined
-        this.toggleSelectBarrier()
-        this.game.endTurn()
+        this.abilityTargets = []
+        if (this.play({ type: 'ability', ability: ability.kind, targets: targets.map(target => target.hex) }))
+            this.selectedAbility = undefined
     }
 
     @action.bound onMouseDown(cell: Cell) {
         this.isMouseDown = true
+        this.hint = undefined
 
-        if (this.selectedAbility === 'teleport') {
-            const cells = this.game.playerCell.circle(TELEPORT_RANGE)
-            if (cells.indexOf(cell) !== -1) {
-                this.game.playerCell = cell
-                this.selectedAbility = undefined
-                this.game.numTeleports -= 1
-                this.game.endTurn()
-            }
-        } else if (this.selectedAbility === 'barrier') {
-            if (this.barrierStart === undefined)
-                this.barrierStart = this.cursor
-            else {
-                this.finishBarrier()
-            }
+        if (this.replayPlayer) {
+            return
+        } else if (this.isEditing) {
+            this.editCell(cell)
+        } else if (this.selectedAbility !== undefined) {
+            this.pickTarget(cell)
         } else {
-            const path = this.game.pathBetween(this.game.playerCell, cell)
-            if (path.length) {
-                if (this.game.isSafe && !this.game.isEndgame && (cell === this.game.teleportCrystal || cell === this.game.exitCell)) {
-                    // Fast move when safe
-                    this.game.playerCell = cell
-                    this.game.endTurn()
-                } else if (path[0].isEmpty) {
-                    this.game.playerCell = path[0]
-                    this.game.endTurn()
-                }
-            }
+            this.play({ type: 'move', hex: cell.hex })
         }
     }
 
     @action.bound onMouseMove(cell: Cell) {
         this.cursor = cell
+        this.isKeyboardCursor = false
+
+        // Terrain can be painted by dragging; things that go on a single cell are placed one click at a time
+        if (this.isEditing && this.isMouseDown && TERRAIN_TYPES[this.editTool])
+            this.editCell(cell)
     }
 
     @action.bound onMouseUp(cell: Cell) {
-        if (this.isMouseDown && this.barrierStart && this.barrierStart !== this.cursor)
-            this.finishBarrier()
+        // Dragging from one target to another picks both, e.g. the two ends of a barrier
+        const last = this.abilityTargets[this.abilityTargets.length-1]
+        if (this.isMouseDown && last && this.cursor && last !== this.cursor)
+            this.pickTarget(this.cursor)
 
         this.isMouseDown = false
     }
 
-    hexToPolygon(hex: Hex): string {
+    hexToPixel(hex: Hex): [number, number] {
         const {boardCenterX, boardCenterY, hexRadius} = this
         const screenX = boardCenterX + hexRadius * 3/2 * hex.r
         const screenY = boardCenterY + hexRadius * Math.sqrt(3) * (hex.q + hex.r/2)
-        return hexagonPoints(screenX, screenY, hexRadius).join(" ")
+        return [screenX, screenY]
+    }
+
+    hexToPolygon(hex: Hex): string {
+        const [screenX, screenY] = this.hexToPixel(hex)
+        return hexagonPoints(screenX, screenY, this.hexRadius).join(" ")
+    }
+
+    // Fog only hides things while playing; the editor always shows the whole board
+    @computed get showsFog(): boolean {
+        return this.game.hasFog && !this.isEditing
+    }
+
+    // Whether the player knows what's on a cell: it's in view, or was at some point
+    isKnown(cell: Cell): boolean {
+        return !this.showsFog || cell.isVisible || cell.remembered !== undefined
     }
 
     renderTerrain() {
         const {game} = this
 
         return game.cells.map(cell => {
+            if (this.showsFog && !cell.isVisible) {
+                // Out of view: dimmed as last seen, or barely there if never seen at all
+                const {remembered} = cell
+                if (!remembered) return <Tile fill={this.color('empty')} opacity={0.25} cell={cell} view={this} className="fog"/>
+                const label = remembered.kind === 'empty' ? undefined : `${remembered.name}, remembered`
+                return <Tile fill={this.color(remembered.kind)} opacity={0.5} cell={cell} view={this} className="fog" {...this.marks(remembered.kind, label)}/>
+            }
+
             const isSelected = this.currentSelection.indexOf(cell) !== -1
             const isPlayer = cell === game.playerCell
-            return <Tile fill={cell.color} stroke={"#000"} strokeWidth={this.hexRadius/8} cell={cell} view={this}/>
+            // Decaying barriers fade as they run out
+            const opacity = cell.expiresIn !== undefined ? 0.4 + 0.6 * cell.expiresIn/(game.floorSpec.barriers.lifetime || 1) : undefined
+            const label = cell.terrain.kind === 'empty' ? undefined : cell.terrain.name + (cell.expiresIn !== undefined ? `, crumbling in ${cell.expiresIn}` : "")
+            return <Tile fill={this.color(cell.terrain.kind)} opacity={opacity} cell={cell} view={this} {...this.marks(cell.terrain.kind, label)}/>
         })
     }
 
+    // Movers are keyed by floor so nothing glides over from the previous board
+    get moverKey() {
+        return `${this.game.seed}:${this.game.floor}`
+    }
+
+    // Kept in every screen so it stays in place for screen readers to notice changes
+    renderAnnouncer() {
+        return <div className="announcer" role="status" aria-live="polite">{this.announcement}</div>
+    }
+
+    // Fills for PATTERNS, drawn in black over the tile's color
+    renderPatterns() {
+        const size = Math.max(4, Math.round(this.hexRadius/3))
+        return <defs>
+            <pattern id="pattern-hatch" width={size} height={size} patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+                <line x1={0} y1={0} x2={0} y2={size} stroke="#000" strokeWidth={size/3} strokeOpacity={0.6}/>
+            </pattern>
+            <pattern id="pattern-waves" width={size*2} height={size} patternUnits="userSpaceOnUse">
+                <path d={`M0 ${size/2} Q${size/2} 0 ${size} ${size/2} T${size*2} ${size/2}`} fill="none" stroke="#fff" strokeWidth={size/6} strokeOpacity={0.6}/>
+            </pattern>
+        </defs>
+    }
+
     renderPlayer() {
-        return <Tile fill={COLOR_PLAYER} cell={this.game.playerCell} view={this}/>
+        return <Mover key={`${this.moverKey}:player`} fill={this.color('player')} cell={this.game.playerCell} view={this} {...this.marks('player', "You")}/>
     }
 
     renderExit() {
-        return <Tile fill={this.game.isEndgame ? COLOR_PLAYER : COLOR_EXIT} cell={this.game.exitCell} view={this}/>
+        const role = this.game.isEndgame ? 'player' : 'exit'
+        return <Tile fill={this.color(role)} cell={this.game.exitCell} view={this} {...this.marks(role, this.game.isEndgame ? "Your beloved" : "Exit portal")}/>
     }
 
     renderEnemies() {
-        return this.game.enemies.map(enemy => {
-            return <Tile fill={COLOR_ENEMY} cell={enemy.cell} view={this}/>
+        return this.game.enemies.map((enemy, i) => {
+            if (this.showsFog && !enemy.cell.isVisible) return
+            return <Mover key={`${this.moverKey}:${i}`} fill={this.color(enemy.type.kind)} opacity={enemy.isAwake ? 1 : 0.6} cell={enemy.cell} view={this} {...this.marks(enemy.type.kind, enemy.type.name + (enemy.isAwake ? "" : ", asleep"))}/>
         })
     }
 
-    renderEnemyPaths() {
+    renderEffects() {
         const tiles: JSX.Element[] = []
-        this.game.enemies.forEach(enemy => {
-            const path = enemy.cell.pathTo(this.game.playerCell)
-            path.slice(0, -1).forEach(cell => tiles.push(
-                <Tile fill={COLOR_ENEMY} opacity={0.05} cell={cell} view={this}/>
-            ))
+        this.effects.forEach(effect => {
+            effect.cells.forEach((cell, i) => {
+                const fill = effect.kind === 'weave' ? "white" : effect.kind === 'flash' ? this.color(effect.role || 'teleport') : this.color('danger')
+                // The weave runs along the wall in the order it was drawn
+                const delay = effect.kind === 'weave' ? i * 30 : 0
+                tiles.push(<Tile key={`${this.effectId}:${effect.kind}:${i}`} fill={fill} cell={cell} view={this} className={`effect ${effect.kind}`} style={{ animationDelay: `${delay}ms` }}/>)
+            })
         })
         return tiles
     }
 
-    renderTargetTeleport() {
-        const cells = this.game.playerCell.circle(TELEPORT_RANGE).filter(cell => cell.isEmpty)
-
-        return cells.map(cell => {
-            return <Tile fill={cell === this.cursor ? COLOR_PLAYER : "yellow"} opacity={cell === this.cursor ? 0.8 : 0.5} cell={cell} view={this}/>
+    renderEnemyPaths() {
+        const tiles: JSX.Element[] = []
+        this.game.enemies.forEach(enemy => {
+            if (!enemy.isAwake || (this.showsFog && !enemy.cell.isVisible)) return
+            enemy.path.slice(0, -1).forEach(cell => tiles.push(
+                <Tile fill={this.color(enemy.type.kind)} opacity={0.05} cell={cell} view={this}/>
+            ))
         })
+        return tiles
     }
 
     renderEndState() {
         const {game} = this
-        if (game.state == 'success') {
+        if (this.testBoard) {
+            return <div id="game" className={"continue " + game.state}>
+                {this.renderAnnouncer()}
+                <h2>{game.state === 'success' ? "Board cleared!" : game.state === 'stuck' ? "You got... stuck?" : "You were captured..."}</h2>
+                {this.renderTestButtons()}
+            </div>
+        } else if (game.state == 'success') {
             const nextFloor = game.floor+1
+            const {story} = game.campaign.floors[nextFloor-1]
             return <div id="game" className="continue success">
+                {this.renderAnnouncer()}
                 <h2>Floor {nextFloor}</h2>
-                {nextFloor === REMINDER_FLOOR && <div>
-                    <p>The spire's hum of activity reaches a feverish pitch, and ever more <Span color={COLOR_ENEMY}>chaos</Span> swarms ahead.</p>
-                    <p>You would really prefer to leave and go soak your etherfronds in a nice spirit lake.</p>
-                    <p>But ahead, barely perceptible through the rising din, you hear a <Span color={COLOR_PLAYER}>familiar mindsong</Span>...</p>
+                {story && <div>
+                    {story.map(paragraph => <p>{renderStoryText(paragraph, this)}</p>)}
                 </div>}
                 <div id="abilities">
                     <button onClick={e => game.nextFloor()}>Continue</button>
@@ -563,50 +681,87 @@ class GameView extends React.Component<{ width: number, height: number }> {
             </div>
         } else if (game.state == 'stuck') {
             return <div id="game" className="continue stuck">
+                {this.renderAnnouncer()}
                 <h2>You got... stuck?</h2>
+                {this.renderRunSummary()}
+                {this.renderDailyResult()}
                 <div id="abilities">
-                    <button onClick={e => game.nextFloor()}>Restart</button>
+                    <button onClick={e => this.undo()}>Undo</button>
+                    <button onClick={e => this.watchReplay(game.replay)}>Watch replay</button>
+                    <button onClick={e => this.isShowingSummary = true}>Summary</button>
+                    <button onClick={e => this.restart()}>Restart</button>
                 </div>
                 </div>
         } else {
             return <div id="game" className="continue failure">
+                {this.renderAnnouncer()}
                 <h2>You were captured...</h2>
+                {this.renderRunSummary()}
+                {this.renderDailyResult()}
                 <div id="abilities">
-                    <button onClick={e => game.nextFloor()}>Restart</button>
+                    <button onClick={e => this.undo()}>Undo</button>
+                    <button onClick={e => this.watchReplay(game.replay)}>Watch replay</button>
+                    <button onClick={e => this.isShowingSummary = true}>Summary</button>
+                    <button onClick={e => this.restart()}>Restart</button>
                 </div>
             </div>
         }
     }
 
-    renderTargetBarrier() {
-        if (!this.cursor) return
-        const barrierCells = this.barrierStart ? this.barrierStart.lineTo(this.cursor) : [this.cursor]
-        return barrierCells.filter(cell => cell.isEmpty).map(cell => {
-            return <Tile fill={COLOR_BARRIER} opacity={0.5} cell={cell} view={this}/> 
-        })
+    // Where the selected ability can be aimed, and what it would do aimed at the cursor
+    renderAbilityTargets() {
+        const {game, cursor} = this
+        if (this.selectedAbility === undefined) return
+        const ability = ABILITIES[this.selectedAbility]
+        const tiles = ability.targetCells(game, this.abilityTargets).map(cell =>
+            <Tile fill={this.color(ability.kind)} opacity={0.3} cell={cell} view={this}/>
+        )
+        if (!cursor) return tiles
+
+        // Targets still to be picked go on the cursor too, so a barrier is previewed as a single cell until its start is placed
+        const targets = this.abilityTargets.concat([cursor])
+        while (targets.length < ability.targets) targets.push(cursor)
+        const affected = ability.preview(game, targets)
+        // Anything that can't be done is drawn in red
+        const isValid = ability.canUse(game, targets)
+        affected.forEach(cell => tiles.push(
+            <Tile fill={isValid ? this.color(ability.kind) : this.color('danger')} opacity={0.5} cell={cell} view={this}/>
+        ))
+
+        const charges = ability.charges(game)
+        if (ability.cost && charges !== undefined && affected.length) {
+            const [x, y] = this.hexToPixel(cursor.hex)
+            tiles.push(<text x={x} y={y - this.hexRadius*1.2} className="barrierCost" textAnchor="middle" fill={isValid ? "white" : this.color('danger')}>
+                {ability.cost(game, targets)}/{charges}
+            </text>)
+        }
+        return tiles
     }
 
-    renderCrystal() {
-        return this.game.teleportCrystal && <Tile fill={COLOR_TELEPORT} cell={this.game.teleportCrystal} view={this}/>
+    renderPickups() {
+        return this.game.pickups.filter(pickup => this.isKnown(pickup.cell)).map(pickup => {
+            const ability = ABILITIES[pickup.kind]
+            const name = ability.pickup as string
+            return <Tile fill={this.color(pickup.kind)} cell={pickup.cell} view={this} {...this.marks(pickup.kind, `${name[0].toUpperCase() + name.slice(1)} (${ability.name.toLowerCase()})`)}/>
+        })
     }
 
     renderHoverInfo() {
         if (this.selectedAbility !== undefined) return
 
-        const hoveredEnemy = this.game.enemies.find(enemy => enemy.cell === this.cursor)
+        const hoveredEnemy = this.game.enemies.find(enemy => enemy.cell === this.cursor && (!this.showsFog || enemy.cell.isVisible))
         if (hoveredEnemy) {
-            const path = hoveredEnemy.cell.pathTo(this.game.playerCell)
-            return path.map(cell =>
-                <Tile fill={COLOR_ENEMY} opacity={0.5} cell={cell} view={this}/>                    
+            return hoveredEnemy.path.map(cell =>
+                <Tile fill={this.color(hoveredEnemy.type.kind)} opacity={0.5} cell={cell} view={this}/>
             )
-        } else if (this.cursor && (this.cursor === this.game.exitCell || this.cursor === this.game.teleportCrystal)) {
-            const path = this.game.playerCell.pathTo(this.cursor)
+        } else if (this.cursor && (this.cursor === this.game.exitCell || this.game.pickups.some(pickup => pickup.cell === this.cursor))) {
+            const path = this.game.distanceField().pathTo(this.cursor)
             let tiles = path.map(cell => {
                 let color = "orange"
                 if (this.game.isSafe)
-                    color = COLOR_PLAYER
+                    color = this.color('player')
                 else if (!cell.isSafe)
-                    color = COLOR_ENEMY
+                    color = this.color('danger')
                 return <Tile fill={color} opacity={0.1} cell={cell} view={this}/>
             })
 
@@ -614,20 +769,317 @@ class GameView extends React.Component<{ width: number, height: number }> {
         }
     }
 
+    renderKeyboardCursor() {
+        if (!this.isKeyboardCursor || !this.cursor) return
+        return <Tile fill="none" stroke="white" strokeWidth={this.hexRadius/5} cell={this.cursor} view={this} className="cursor"/>
+    }
+
+    renderHint() {
+        const {hint, game} = this
+        if (!hint) return
+
+        let cells: Cell[] = []
+        let color = this.color('player')
+        if (hint.type === 'move') {
+            const destination = game.moveDestination(hint.hex)
+            cells = destination ? game.distanceField().pathTo(destination) : []
+        } else {
+            cells = ABILITIES[hint.ability].preview(game, hint.targets.map(hex => game.hexGrid.get(hex)))
+            color = this.color(hint.ability)
+        }
+
+        return cells.map(cell =>
+            <Tile fill={color} opacity={0.6} cell={cell} view={this} className="hint"/>
+        )
+    }
+
+    // Items held or lying on this floor, and what they do
+    renderItemLegend() {
+        const kinds = ITEM_KINDS.filter(kind => kind !== 'teleport' && this.isAbilityShown(kind))
+        if (!kinds.length) return
+
+        return <ul className="legend">
+            {kinds.map(kind => ABILITIES[kind]).map(ability =>
+                <li key={ability.kind}><Span color={this.color(ability.kind)}>{(ability.pickup as string)[0].toUpperCase() + (ability.pickup as string).slice(1)}</Span> (<kbd>{ability.key.toUpperCase()}</kbd>): {ability.description}</li>
+            )}
+        </ul>
+    }
+
+    // Enemy types met so far, so later floors don't spoil what's coming
+    renderEnemyLegend() {
+        const types = enemyKindsUpTo(this.game.campaign, this.game.floor).map(kind => ENEMY_TYPES[kind])
+        const tactics = TACTICS[this.game.floorSpec.tactics]
+        if (types.length < 2 && tactics.kind === 'greedy') return
+
+        return <ul className="legend">
+            {types.length >= 2 && types.map(type =>
+                <li key={type.kind}><Span color={this.color(type.kind)}>{type.name[0].toUpperCase() + type.name.slice(1)}</Span>: {type.description}</li>
+            )}
+            {tactics.kind !== 'greedy' && <li key="tactics">On this floor: {tactics.description}</li>}
+        </ul>
+    }
+
+    @action.bound openEditor() {
+        this.isEditing = true
+        this.isHelping = false
+        this.selectedAbility = undefined
+        this.abilityTargets = []
+        this.hint = undefined
+        // Boards are edited and test played on a game of their own, leaving the run as it was
+        const board = this.testBoard || this.game.exportBoard()
+        if (!this.liveGame) {
+            this.liveGame = this.game
+            this.game = new Game({ campaign: this.game.campaign, saved: this.game.serialize() })
+            this.game.isRecording = false
+        }
+        this.game.loadBoard(board)
+    }
+
+    @action.bound closeEditor() {
+        this.isEditing = false
+        this.testBoard = undefined
+        this.boardError = undefined
+        this.boardCheck = undefined
+        if (this.liveGame) this.game = this.liveGame
+        this.liveGame = undefined
+    }
+
+    @action.bound editCell(cell: Cell) {
+        this.game.editCell(cell.hex, this.editTool)
+        this.boardCheck = undefined
+    }
+
+    @action.bound checkBoard() {
+        const {solvable, turns} = new Solver(this.game).minimumTurns()
+        this.boardCheck = solvable ? `Can be won in ${turns} turn${turns === 1 ? "" : "s"}` : solvable === false ? "Found no way to win" : "Too many possibilities to tell if it can be won"
+    }
+
+    @action.bound testPlay() {
+        this.testBoard = this.game.exportBoard()
+        this.isEditing = false
+    }
+
+    @action.bound retryTest() {
+        if (this.testBoard) this.game.loadBoard(this.testBoard)
+        this.selectedAbility = undefined
+        this.hint = undefined
+    }
+
+    @action.bound exportBoardText() {
+        this.boardText = JSON.stringify(this.game.exportBoard())
+        this.boardError = undefined
+    }
+
+    @action.bound importBoardText() {
+        try {
+            this.game.loadBoard(parseBoard(JSON.parse(this.boardText)))
+            this.boardError = undefined
+            this.boardCheck = undefined
+        } catch (err) {
+            this.boardError = err.message
+        }
+    }
+
+    renderEditorCursor() {
+        if (!this.cursor) return
+        const tool = EDIT_TOOLS.find(entry => entry.tool === this.editTool)
+        return tool && <Tile fill={this.color(tool.tool)} opacity={0.5} cell={this.cursor} view={this} className="cursor"/>
+    }
+
+    renderEditor() {
+        return <div id="editor">
+            <div className="tools">
+                {EDIT_TOOLS.map(entry =>
+                    <button key={entry.tool} className={this.editTool === entry.tool ? 'active' : ""} style={{ borderColor: this.color(entry.tool) }} onClick={e => this.editTool = entry.tool}>{entry.label}</button>
+                )}
+            </div>
+            <div id="abilities">
+                <button onClick={e => this.testPlay()}>Test play</button>
+                <button onClick={e => this.checkBoard()}>Check</button>
+                <button onClick={e => this.exportBoardText()}>Export</button>
+                <button onClick={e => this.importBoardText()}>Import</button>
+                <button onClick={e => this.closeEditor()}>Close editor</button>
+            </div>
+            <textarea value={this.boardText} placeholder="Export to get the board as JSON, or paste a board here and import it" onInput={(e: any) => this.boardText = e.target.value}/>
+            {this.boardError && <p className="error">{this.boardError}</p>}
+            {this.boardCheck && <p>{this.boardCheck}</p>}
+        </div>
+    }
+
+    renderTestButtons() {
+        return <div id="abilities">
+            <button onClick={e => this.retryTest()}>Try again</button>
+            <button onClick={e => this.openEditor()}>Back to editor</button>
+        </div>
+    }
+
+    @action.bound watchReplay(replay: Replay) {
+        this.liveGame = this.liveGame || this.game
+        this.replayPlayer = new ReplayPlayer(replay, findCampaign(replay.campaign))
+        this.game = this.replayPlayer.game
+        this.isHelping = false
+        this.selectedAbility = undefined
+        this.hint = undefined
+    }
+
+    @action.bound closeReplay() {
+        this.pauseReplay()
+        if (this.liveGame) this.game = this.liveGame
+        this.liveGame = undefined
+        this.replayPlayer = undefined
+    }
+
+    @action.bound stepReplay(delta: number) {
+        this.pauseReplay()
+        if (this.replayPlayer) this.replayPlayer.step(delta)
+    }
+
+    @action.bound toggleReplayPlaying() {
+        if (this.isReplayPlaying) {
+            this.pauseReplay()
+            return
+        }
+
+        const player = this.replayPlayer
+        if (!player) return
+        if (player.isAtEnd) player.seek(0)
+        this.isReplayPlaying = true
+        this.replayTimer = window.setInterval(action(() => {
+            player.step(1)
+            if (player.isAtEnd) this.pauseReplay()
+        }), 500)
+    }
+
+    @action.bound pauseReplay() {
+        if (this.replayTimer !== undefined) window.clearInterval(this.replayTimer)
+        this.replayTimer = undefined
+        this.isReplayPlaying = false
+    }
+
+    @action.bound shareReplay() {
+        this.replayText = replayToString(this.game.replay)
+        this.replayError = undefined
+    }
+
+    @action.bound importReplay() {
+        try {
+            this.watchReplay(replayFromString(this.replayText))
+            this.replayError = undefined
+        } catch (err) {
+            this.replayError = err.message
+        }
+    }
+
+    renderReplayControls() {
+        const player = this.replayPlayer
+        if (!player) return
+        const [floor, played] = player.locate(player.position)
+
+        return <div id="replay">
+            <p className="summary">Turn {played} of {floor.entries.length} &middot; {player.position+1}/{player.length}</p>
+            <input type="range" min={0} max={player.length-1} value={player.position} onInput={(e: any) => { this.pauseReplay(); player.seek(parseInt(e.target.value)) }}/>
+            <div id="abilities">
+                <button onClick={e => this.stepReplay(-1)} disabled={player.position === 0} title="Step back (Left arrow)">Back</button>
+                <button className={this.isReplayPlaying ? "active" : ""} onClick={e => this.toggleReplayPlaying()} title="Play or pause (Space)">{this.isReplayPlaying ? "Pause" : "Play"}</button>
+                <button onClick={e => this.stepReplay(1)} disabled={player.isAtEnd} title="Step forward (Right arrow)">Step</button>
+                <button onClick={e => downloadReplay(player.replay)}>Export</button>
+                <button onClick={e => this.closeReplay()}>Close</button>
+            </div>
+        </div>
+    }
+
+    // Watching back the current run, or one someone else shared
+    renderReplayMenu() {
+        return <div className="replays">
+            <button onClick={e => this.watchReplay(this.game.replay)}>Watch replay</button>
+            <button className="newRun" onClick={e => downloadReplay(this.game.replay)}>Export</button>
+            <button className="newRun" onClick={e => this.shareReplay()}>Share string</button>
+            <textarea value={this.replayText} placeholder="Paste a replay string to watch it" onInput={(e: any) => this.replayText = e.target.value}/>
+            <button onClick={e => this.importReplay()}>Watch pasted replay</button>
+            {this.replayError && <p className="error">{this.replayError}</p>}
+        </div>
+    }
+
+    renderRunSummary() {
+        const run = this.game.summarizeRun()
+        const total = totalStats(run.floors)
+        return <div className="summary">
+            <p>Reached floor {this.game.floor} &middot; Score {run.score} &middot; Hints used: {run.hintsUsed}</p>
+            <p>{total.turns} turns &middot; {total.barriersPlaced} barriers ({total.cellsWalled} cells) &middot; {total.teleportsUsed} teleports &middot; {total.enemiesDefeated} enemies walled off &middot; {formatDuration(run.duration)}</p>
+        </div>
+    }
+
+    renderLeaderboard(current?: RunSummary) {
+        // The run that just ended shows where it would place, before it's recorded
+        const runs = current ? this.leaderboard.slice() : this.leaderboard
+        if (current) runs.splice(leaderboardRank(runs, current), 0, current)
+        if (!runs.length) return <p className="summary">No runs recorded yet.</p>
+
+        return <ol className="leaderboard">
+            {runs.slice(0, 10).map(run =>
+                <li className={run === current ? "current" : ""}>{run.score} &middot; {run.finished ? "finished" : `floor ${run.floorsCleared+1}`} &middot; {formatDuration(run.duration)} <small>{new Date(run.endedAt).toLocaleDateString()}</small></li>
+            )}
+        </ol>
+    }
+
+    // Floor by floor breakdown of the run that just ended, with the leaderboard
+    renderPostRun() {
+        const run = this.game.summarizeRun()
+        const total = totalStats(run.floors)
+        const row = (label: string, stats: typeof total) =>
+            <tr><td>{label}</td><td>{stats.turns}</td><td>{stats.barriersPlaced}</td><td>{stats.cellsWalled}</td><td>{stats.teleportsUsed}</td><td>{stats.enemiesDefeated}</td></tr>
+
+        return <div id="game" className="continue postRun">
+            {this.renderAnnouncer()}
+            <h2>Score {run.score}</h2>
+            <p className="summary">{run.finished ? "Finished the spire" : `Reached floor ${this.game.floor}`} in {formatDuration(run.duration)} &middot; Hints used: {run.hintsUsed}</p>
+            <table className="stats">
+                <thead><tr><th>Floor</th><th>Turns</th><th>Barriers</th><th>Cells</th><th>Teleports</th><th>Walled off</th></tr></thead>
+                <tbody>
+                    {run.floors.map(stats => row(`${stats.floor}`, stats))}
+                    {row("Total", total)}
+                </tbody>
+            </table>
+            <h3>Best runs</h3>
+            {this.renderLeaderboard(run)}
+            <div id="abilities">
+                <button onClick={e => this.isShowingSummary = false}>Back</button>
+                <button onClick={e => this.restart()}>Restart</button>
+            </div>
+        </div>
+    }
+
     renderHeart() {
+        const center = placementHex(this.game.boardHexes, 'center')
         return HEART.map(coords => {
-            const cell = this.game.hexGrid.get(new Hex(coords[0], coords[1], coords[2]))
-            return <Tile fill={COLOR_PLAYER} cell={cell} view={this}/>
+            const cell = this.game.hexGrid.get(center.add(new Hex(coords[0], coords[1], coords[2])))
+            return cell && <Tile fill={this.color('player')} cell={cell} view={this}/>
         })
     }
 
-    @action.bound toggleSelectBarrier() {
-        this.selectedAbility = this.selectedAbility === 'barrier' ? undefined : 'barrier'
-        this.barrierStart = undefined
+    @action.bound toggleAbility(kind: AbilityKind) {
+        this.abilityTargets = []
+        if (ABILITIES[kind].targets === 0) {
+            // Nothing to aim, so it goes off straight away
+            this.selectedAbility = undefined
+            this.play({ type: 'ability', ability: kind, targets: [] })
+        } else {
+            this.selectedAbility = this.selectedAbility === kind ? undefined : kind
+        }
+    }
+
+    // Barriers and teleports are always listed, other items once they turn up
+    isAbilityShown(kind: AbilityKind): boolean {
+        const {game} = this
+        return kind === 'barrier' || kind === 'teleport' || game.inventory[kind] > 0 || game.pickups.some(pickup => pickup.kind === kind)
     }
 
-    @action.bound toggleSelectTeleport() {
-        this.selectedAbility = this.selectedAbility === 'teleport' ? undefined : 'teleport'
+    abilityLabel(ability: Ability): string {
+        if (this.selectedAbility === ability.kind && ability.targets > 1)
+            return this.abilityTargets.length ? "Place End" : "Place Start"
+        const charges = ability.charges(this.game)
+        if (charges === undefined) return ability.name
+        return ability.pickup ? `${ability.name} x${charges}` : `${ability.name} (${charges})`
     }
     
     @action.bound onMouseLeave() {
@@ -637,15 +1089,33 @@ class GameView extends React.Component<{ width: number, height: number }> {
     renderAbilities() {
         const {game} = this
 
+        if (this.replayPlayer)
+            return this.renderReplayControls()
+
+        if (this.isEditing)
+            return this.renderEditor()
+
+        if (game.state === 'final' && this.testBoard)
+            return this.renderTestButtons()
+
         if (game.state === 'final')
             return <div id="abilities">
-                <button onClick={e => game.nextFloor()}>Restart</button>
+                {this.renderRunSummary()}
+                {this.renderDailyResult()}
+                <button onClick={e => this.watchReplay(game.replay)}>Watch replay</button>
+                <button onClick={e => this.isShowingSummary = true}>Summary</button>
+                <button onClick={e => this.restart()}>Restart</button>
             </div>
 
         return <div id="abilities">
-            <button className={"barrier" + (this.selectedAbility === 'barrier' ? ' active' : "")} onClick={e => this.toggleSelectBarrier() } disabled={game.isEndgame}>{this.selectedAbility === 'barrier' ? (this.barrierStart ? "Place End" : "Place Start") : "Barrier Wall"}</button>
-            <button className={"teleport" + (this.selectedAbility === 'teleport' ? ' active' : "")} onClick={e => this.toggleSelectTeleport() } disabled={game.isEndgame || game.numTeleports == 0}>Teleport x{game.numTeleports}</button>
+            {ABILITY_KINDS.filter(kind => this.isAbilityShown(kind)).map(kind => ABILITIES[kind]).map(ability =>
+                <button key={ability.kind} className={ability.kind + (this.selectedAbility === ability.kind ? ' active' : "")} onClick={e => this.toggleAbility(ability.kind)} disabled={!ability.isReady(game)} title={`${ability.name} (${ability.key.toUpperCase()}): ${ability.description}`}>{this.abilityLabel(ability)}</button>
+            )}
+            <button className={"hint" + (this.hint ? ' active' : "")} onClick={e => this.toggleHint()} disabled={game.isEndgame}>Hint</button>
+            <button className="undo" onClick={e => this.undo()} disabled={!game.history.canUndo} title="Undo (Ctrl+Z)">Undo</button>
+            <button className="redo" onClick={e => this.redo()} disabled={!game.history.canRedo} title="Redo (Ctrl+Y or Ctrl+Shift+Z)">Redo</button>
             <button className={"help" + (this.isHelping? ' active' : "")} onClick={e => this.isHelping = !this.isHelping} disabled={game.isEndgame}>Help</button>
+            {this.testBoard && <button onClick={e => this.openEditor()}>Edit</button>}
         </div>
     }
 
@@ -655,43 +1125,97 @@ class GameView extends React.Component<{ width: number, height: number }> {
         window.game = game
         window.gameView = this
 
-        if (game.state !== 'game' && game.state !== 'final') {
+        if (this.isShowingSummary)
+            return this.renderPostRun()
+
+        // The board stays up until the last turn has finished playing out
+        if (game.state !== 'game' && game.state !== 'final' && !this.replayPlayer && !this.isAnimating) {
             return this.renderEndState()
         }
 
         return <div id="game">
+            {this.renderAnnouncer()}
             {this.isHelping && <div className="help">
                 <h1>Pathspire</h1>
-                <p>A vast spire looms before you. You are a <Span color={COLOR_PLAYER}>luminous psionic being</Span> and you wish to ascend the spire, to search for a mystical artifact or rescue a cute guy or something.</p>
-                <p>On each floor you must reach the <Span color={COLOR_EXIT}>exit portal</Span> that leads to the next.</p>
-                <p>Your way is impeded by <Span color={COLOR_PILLAR}>ominous pillars</Span> and <Span color={COLOR_ENEMY}>chaotic entities</Span> who will try to capture you for their own nefarious ends. Watch out!</p>
-                <p>Fortunately, you have mastered the art of weaving <Span color={COLOR_BARRIER}>psionic barriers</Span> to form defensive walls. But be careful not to block your own path...</p>
-                <p>Throughout the spire you will find single-use <Span color={COLOR_TELEPORT}>teleport crystals</Span>. These are helpful friends!</p>
-                <button onClick={e => this.isHelping = false}>Continue</button>
+                <p>A vast spire looms before you. You are a <Span color={this.color('player')}>luminous psionic being</Span> and you wish to ascend the spire, to search for a mystical artifact or rescue a cute guy or something.</p>
+                <p>On each floor you must reach the <Span color={this.color('exit')}>exit portal</Span> that leads to the next.</p>
+                <p>Your way is impeded by <Span color={this.color('pillar')}>ominous pillars</Span> and <Span color={this.color('chaser')}>chaotic entities</Span> who will try to capture you for their own nefarious ends. Watch out!</p>
+                {this.renderEnemyLegend()}
+                {game.hasFog && <p>Darkness shrouds this floor. You can only see {game.floorSpec.sight} cells ahead, <Span color={this.color('pillar')}>pillars</Span> and <Span color={this.color('barrier')}>barriers</Span> block your view, and enemies only give chase once they've seen you.</p>}
+                <p>Fortunately, you have mastered the art of weaving <Span color={this.color('barrier')}>psionic barriers</Span> to form defensive walls. But be careful not to block your own path...</p>
+                <p>Throughout the spire you will find single-use <Span color={this.color('teleport')}>teleport crystals</Span>. These are helpful friends!</p>
+                {this.renderItemLegend()}
+                <p className="controls">Keyboard: <kbd>Q</kbd> <kbd>W</kbd> <kbd>E</kbd> <kbd>A</kbd> <kbd>S</kbd> <kbd>D</kbd> step, <kbd>B</kbd> barrier, <kbd>T</kbd> teleport, <kbd>P</kbd> push, <kbd>X</kbd> stun, <kbd>V</kbd> dissolve, <kbd>Enter</kbd> to place, <kbd>Esc</kbd> to cancel, <kbd>Ctrl+Z</kbd> undo.</p>
+                <button className="continue" onClick={e => this.isHelping = false}>Continue</button>
+                <button className="newRun" onClick={e => this.newRun()}>New run</button>
+                <button className="newRun" onClick={e => this.startDaily()}>Daily challenge</button>
+                <button className="newRun" onClick={e => this.openEditor()}>Edit floor</button>
+                <p><label><input type="checkbox" checked={this.animationsEnabled} onChange={e => this.toggleAnimations()}/> Animations</label></p>
+                <p className="display">
+                    <label>Colors <select value={this.themeId} onChange={e => this.setTheme((e.target as HTMLSelectElement).value)}>
+                        {THEMES.map(theme => <option key={theme.id} value={theme.id}>{theme.name}</option>)}
+                    </select></label>
+                    <label><input type="checkbox" checked={this.symbolsEnabled} onChange={e => this.toggleSymbols()}/> Symbols</label>
+                    <label><input type="checkbox" checked={this.highContrast} onChange={e => this.toggleHighContrast()}/> High contrast</label>
+                </p>
                 <hr/>
+                <h3>Best runs</h3>
+                {this.renderLeaderboard()}
+                <hr/>
+                {this.renderReplayMenu()}
+                <hr/>
+                <small className="seed">Seed <a href={`?seed=${game.seed}&floor=${game.floor}&campaign=${game.campaign.id}`}>{game.seed}</a> ({game.campaign.id !== 'default' ? `${game.campaign.name}, ` : ""}floor {game.floor})</small>
+                <br/>
                 <small>This little game was made over the weekend by <a href="https://mispy.me/">Jaiden Mispy</a>. You may peek at the <a href="https://github.com/mispy/spirepath">source code</a>.</small>
             </div>}
-            <h2>Floor {game.floor}</h2>
-            <svg width={boardWidth} height={boardHeight} onMouseLeave={this.onMouseLeave}>
+            <h2>{this.isEditing ? "Editor" : this.testBoard ? "Test play" : this.replayPlayer ? `Replay · Floor ${game.floor}` : game.mode === 'daily' ? `Daily · Floor ${game.floor}` : `Floor ${game.floor}`}</h2>
+            <svg width={boardWidth} height={boardHeight} role="group" aria-label={`Board, floor ${game.floor}`} ref={el => this.svg = el} onMouseLeave={this.onMouseLeave} onTouchStart={this.onTouchStart} onTouchMove={this.onTouchMove} onTouchEnd={this.onTouchEnd}>
+                {this.renderPatterns()}
                 {this.renderTerrain()}
-                {this.renderEnemyPaths()}
+                {!this.isEditing && this.renderEnemyPaths()}
                 {this.renderPlayer()}
                 {this.renderExit()}
-                {this.renderCrystal()}
+                {this.renderPickups()}
                 {this.renderEnemies()}
-                {this.renderHoverInfo()}
-                {this.selectedAbility === 'barrier' && this.renderTargetBarrier()}
-                {this.selectedAbility === 'teleport' && this.renderTargetTeleport()}
+                {this.renderEffects()}
+                {this.isEditing ? this.renderEditorCursor() : this.renderHoverInfo()}
+                {this.renderHint()}
+                {this.renderAbilityTargets()}
                 {this.game.state == 'final' && this.renderHeart()}
+                {this.renderKeyboardCursor()}
             </svg>
             {this.renderAbilities()}
         </div>
     }
 }
 
+function queryNumber(name: string): number|undefined {
+    const match = new RegExp(`[?&]${name}=(\\d+)`).exec(window.location.search)
+    return match ? parseInt(match[1]) : undefined
+}
+
+function queryString(name: string): string|undefined {
+    const match = new RegExp(`[?&]${name}=([\\w-]+)`).exec(window.location.search)
+    return match ? match[1] : undefined
+}
+
 window.homepageStart = function() {
+    const seed = queryNumber('seed')
+    const floor = queryNumber('floor')
+    const campaignId = queryString('campaign')
+    // An explicit seed in the url takes precedence over resuming the saved run
+    let saved = seed === undefined ? loadSavedGame() : undefined
+    const campaign = findCampaign(campaignId !== undefined ? campaignId : saved && saved.campaign)
+    // The saved run only resumes in the campaign it belongs to
+    if (saved && saved.campaign !== campaign.id)
+        saved = undefined
+    // ?daily starts today's challenge, unless that is the run being resumed
+    const daily = /[?&]daily\b/.test(window.location.search) ? dailyDateFor(new Date()) : undefined
+    if (daily !== undefined && saved && saved.dailyDate !== daily)
+        saved = undefined
+
     function render() {
-        ReactDOM.render(<GameView width={window.innerWidth} height={window.innerHeight} />, document.querySelector("main"))
+        ReactDOM.render(<GameView width={window.innerWidth} height={window.innerHeight} seed={seed} floor={floor} campaign={campaign} saved={saved} daily={daily} />, document.querySelector("main"))
     }
 
     window.onresize = render
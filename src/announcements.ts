@@ -0,0 +1,70 @@
+import {Game, Enemy, Command, TurnSnapshot, Hex, ABILITIES, ITEM_KINDS} from './engine'
+
+function plural(count: number, noun: string, nouns: string = noun + "s"): string {
+    return `${count} ${count === 1 ? noun : nouns}`
+}
+
+const ABILITY_TEXT: { [kind: string]: string } = {
+    barrier: "You weave a barrier.",
+    teleport: "You teleport.",
+    push: "You push back the enemies around you.",
+    stun: "You stun an enemy.",
+    dissolve: "You dissolve a wall."
+}
+
+// What happened on the turn just played, for screen readers. `before` is how things stood when it began.
+export function describeTurn(game: Game, command: Command, before: TurnSnapshot): string {
+    const parts: string[] = []
+
+    if (command.type === 'ability')
+        parts.push(ABILITY_TEXT[command.ability])
+    else
+        parts.push(`You move ${Hex.distance(before.playerCell.hex, game.playerCell.hex) > 1 ? "straight there" : "a step"}.`)
+
+    ITEM_KINDS.forEach(kind => {
+        const ability = ABILITIES[kind]
+        const count = game.inventory[kind]
+        if (count > before.inventory[kind] && ability.pickup)
+            parts.push(`${ability.pickup[0].toUpperCase() + ability.pickup.slice(1)} picked up, ${plural(count, ability.name.toLowerCase())} ready.`)
+    })
+
+    if (game.state === 'failure') {
+        const captor = game.enemies.find(enemy => enemy.cell === game.playerCell)
+        parts.push(`Captured${captor ? ` by a ${captor.type.name}` : ""}!`)
+        return parts.join(" ")
+    } else if (game.state === 'success') {
+        parts.push(`You reach the exit. Floor ${game.floor} cleared!`)
+        return parts.join(" ")
+    } else if (game.state === 'final') {
+        parts.push("You reach the heart of the spire.")
+        return parts.join(" ")
+    } else if (game.state === 'stuck') {
+        parts.push("There's no way left to the exit.")
+        return parts.join(" ")
+    }
+
+    // In fog, only what the player can see is worth telling
+    const inView = (enemy: Enemy) => enemy.cell.isVisible
+    const moved = game.enemies.filter((enemy, i) => inView(enemy) && before.enemies[i] && before.enemies[i].cell !== enemy.cell).length
+    const woken = game.enemies.filter((enemy, i) => before.enemies[i] && !before.enemies[i].isAwake && enemy.isAwake).length
+    if (moved)
+        parts.push(`${plural(moved, "enemy", "enemies")} moved.`)
+    if (woken && game.hasFog)
+        parts.push(`${plural(woken, "enemy", "enemies")} spotted you.`)
+    else if (woken)
+        parts.push(`${plural(woken, "sentry", "sentries")} woke up.`)
+
+    const field = game.distanceField()
+    const seen = game.enemies.filter(inView)
+    const threats = seen.filter(enemy => !enemy.isDefeated)
+    if (threats.length) {
+        const nearest = Math.min(...threats.map(enemy => enemy.path.length))
+        parts.push(`Nearest enemy ${plural(nearest, "step")} away.`)
+    } else if (seen.length) {
+        parts.push("No enemy can reach you.")
+    }
+    if (field.reaches(game.exitCell))
+        parts.push(`Exit ${plural(field.distance(game.exitCell), "step")} away.`)
+
+    return parts.join(" ")
+}
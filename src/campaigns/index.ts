@@ -0,0 +1,12 @@
+import {Campaign, parseCampaign, DEFAULT_CAMPAIGN} from '../engine'
+
+declare const require: any
+
+// Every .json file in this directory is a campaign, picked with ?campaign=<id>.
+// Adding one needs no code changes; see README for the format.
+const context = require.context('.', false, /\.json$/)
+export const CAMPAIGNS: Campaign[] = context.keys().map((key: string) => parseCampaign(context(key)))
+
+export function findCampaign(id?: string): Campaign {
+    return CAMPAIGNS.find(campaign => campaign.id === id) || DEFAULT_CAMPAIGN
+}
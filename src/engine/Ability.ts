@@ -0,0 +1,171 @@
+import Hex from './Hex'
+import Cell from './Cell'
+import Game from './Game'
+import {FloorStats} from './RunStats'
+import {TERRAIN_TYPES} from './TerrainType'
+import {TELEPORT_RANGE, PUSH_DISTANCE, STUN_RANGE, DISSOLVE_RANGE} from './constants'
+
+export type AbilityKind = 'barrier'|'teleport'|'push'|'stun'|'dissolve'
+// Abilities that come from pickups on the board, a charge at a time. Barriers run on the floor's energy instead.
+export type ItemKind = 'teleport'|'push'|'stun'|'dissolve'
+
+// Charges held of each item
+export type Inventory = { [kind: string]: number }
+
+// An item lying on the board, waiting to be picked up
+export interface Pickup {
+    cell: Cell
+    kind: ItemKind
+}
+
+// Something the player can do instead of moving. Rules and the view only ever go through these
+// properties, so a new ability just needs an entry in ABILITIES.
+export interface Ability {
+    kind: AbilityKind
+    name: string
+    description: string
+    // What its pickup is called, for items
+    pickup?: string
+    // Keyboard shortcut for selecting it
+    key: string
+    // Letter it's written as in replay entries (see encodeEntry)
+    code: string
+    // How many cells are picked to use it: none, a single target, or the two ends of a line
+    targets: number
+    // Charges or energy left, if it's limited
+    charges(game: Game): number|undefined
+    // Whether it can be used at all right now, before any targets are picked
+    isReady(game: Game): boolean
+    // Cells worth picking next, for highlighting, given the targets picked so far
+    targetCells(game: Game, targets: Cell[]): Cell[]
+    // Cells it would affect with these targets, for previews and hints
+    preview(game: Game, targets: Cell[]): Cell[]
+    canUse(game: Game, targets: Cell[]): boolean
+    // Energy it would take out of its charges, for abilities that aren't used a charge at a time
+    cost?(game: Game, targets: Cell[]): number
+    // Carry it out, returning what counts towards the floor's stats. The turn ends afterwards.
+    use(game: Game, targets: Cell[]): Partial<FloorStats>
+}
+
+export function emptyInventory(): Inventory {
+    return { teleport: 0, push: 0, stun: 0, dissolve: 0 }
+}
+
+function hasCharge(game: Game, kind: ItemKind): boolean {
+    return !game.isEndgame && game.inventory[kind] > 0
+}
+
+function spendCharge(game: Game, kind: ItemKind) {
+    game.inventory = Object.assign({}, game.inventory, { [kind]: game.inventory[kind] - 1 })
+}
+
+// Enemies next to the player, each paired with the direction pointing away from the player
+function adjacentEnemies(game: Game): [Cell, number][] {
+    const hits: [Cell, number][] = []
+    Hex.directions.forEach((direction, i) => {
+        const cell = game.hexGrid.get(game.playerCell.hex.neighbor(i))
+        if (cell && game.enemies.some(enemy => enemy.cell === cell)) hits.push([cell, i])
+    })
+    return hits
+}
+
+// Where a pushed enemy ends up: as far as PUSH_DISTANCE allows, stopping short of anything in the way
+function pushDestination(game: Game, cell: Cell, direction: number): Cell {
+    let destination = cell
+    for (let i = 0; i < PUSH_DISTANCE; i++) {
+        const next = game.hexGrid.get(destination.hex.neighbor(direction))
+        if (!next || !next.isEmpty) break
+        destination = next
+    }
+    return destination
+}
+
+export const ABILITIES: { [kind: string]: Ability } = {
+    barrier: {
+        kind: 'barrier', name: "Barrier Wall", key: 'b', code: 'b', targets: 2,
+        description: "weaves a straight wall between two cells.",
+        charges: game => game.barrierEnergy,
+        isReady: game => !game.isEndgame && (game.barrierEnergy === undefined || game.barrierEnergy >= game.floorSpec.barriers.cost),
+        targetCells: (game, targets) => [],
+        preview: (game, targets) => game.barrierLine(targets[0], targets[1]),
+        canUse: (game, targets) => !game.isEndgame && game.canPlaceBarrier(targets[0], targets[1]),
+        cost: (game, targets) => game.barrierCost(targets[0], targets[1]),
+        use(game, targets) {
+            const cellsWalled = game.barrierLine(targets[0], targets[1]).length
+            game.placeBarrier(targets[0], targets[1])
+            return { barriersPlaced: 1, cellsWalled: cellsWalled }
+        }
+    },
+    teleport: {
+        kind: 'teleport', name: "Teleport", pickup: "crystal", key: 't', code: 't', targets: 1,
+        description: `jumps to any open cell less than ${TELEPORT_RANGE} steps away.`,
+        charges: game => game.inventory.teleport,
+        isReady: game => hasCharge(game, 'teleport'),
+        targetCells: game => game.teleportTargets,
+        preview: (game, targets) => [game.playerCell, targets[0]],
+        canUse: (game, targets) => hasCharge(game, 'teleport') && game.teleportTargets.indexOf(targets[0]) !== -1,
+        use(game, targets) {
+            spendCharge(game, 'teleport')
+            game.playerCell = targets[0]
+            return { teleportsUsed: 1 }
+        }
+    },
+    push: {
+        kind: 'push', name: "Push", pickup: "force shard", key: 'p', code: 'p', targets: 0,
+        description: `shoves every enemy next to you up to ${PUSH_DISTANCE} cells away.`,
+        charges: game => game.inventory.push,
+        isReady: game => hasCharge(game, 'push') && adjacentEnemies(game).length > 0,
+        targetCells: game => [],
+        preview: game => adjacentEnemies(game).map(([cell, direction]) => pushDestination(game, cell, direction)),
+        canUse: game => hasCharge(game, 'push') && adjacentEnemies(game).length > 0,
+        use(game) {
+            spendCharge(game, 'push')
+            adjacentEnemies(game).forEach(([cell, direction]) => {
+                const enemy = game.enemies.find(enemy => enemy.cell === cell)
+                if (enemy) enemy.cell = pushDestination(game, cell, direction)
+            })
+            return {}
+        }
+    },
+    stun: {
+        kind: 'stun', name: "Stun", pickup: "stasis shard", key: 'x', code: 's', targets: 1,
+        description: `stops an enemy up to ${STUN_RANGE} cells away from moving next turn.`,
+        charges: game => game.inventory.stun,
+        isReady: game => hasCharge(game, 'stun'),
+        targetCells: game => game.enemies.filter(enemy =>
+            !enemy.isStunned && Hex.distance(enemy.cell.hex, game.playerCell.hex) <= STUN_RANGE && game.canSee(game.playerCell, enemy.cell)
+        ).map(enemy => enemy.cell),
+        preview: (game, targets) => targets,
+        canUse: (game, targets) => hasCharge(game, 'stun') && ABILITIES.stun.targetCells(game, []).indexOf(targets[0]) !== -1,
+        use(game, targets) {
+            spendCharge(game, 'stun')
+            const enemy = game.enemies.find(enemy => enemy.cell === targets[0])
+            if (enemy) enemy.isStunned = true
+            return {}
+        }
+    },
+    dissolve: {
+        kind: 'dissolve', name: "Dissolve", pickup: "solvent shard", key: 'v', code: 'd', targets: 1,
+        description: `clears away a pillar or barrier cell up to ${DISSOLVE_RANGE} cells away.`,
+        charges: game => game.inventory.dissolve,
+        isReady: game => hasCharge(game, 'dissolve'),
+        targetCells: game => game.playerCell.circle(DISSOLVE_RANGE + 1).filter(cell =>
+            cell.terrain.destructible && game.canSee(game.playerCell, cell)
+        ),
+        preview: (game, targets) => targets,
+        canUse: (game, targets) => hasCharge(game, 'dissolve') && ABILITIES.dissolve.targetCells(game, []).indexOf(targets[0]) !== -1,
+        use(game, targets) {
+            spendCharge(game, 'dissolve')
+            targets[0].terrain = TERRAIN_TYPES.empty
+            targets[0].expiresIn = undefined
+            return {}
+        }
+    }
+}
+
+export const ABILITY_KINDS = Object.keys(ABILITIES) as AbilityKind[]
+export const ITEM_KINDS = ABILITY_KINDS.filter(kind => ABILITIES[kind].pickup !== undefined) as ItemKind[]
+
+export function abilityByCode(code: string): Ability|undefined {
+    return ABILITY_KINDS.map(kind => ABILITIES[kind]).find(ability => ability.code === code)
+}
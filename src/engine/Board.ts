@@ -0,0 +1,73 @@
+import {EnemyKind, ENEMY_TYPES} from './EnemyType'
+import {TerrainKind, TERRAIN_TYPES} from './TerrainType'
+import {BoardShape, parseShape, shapeHexes} from './BoardShape'
+import {ItemKind, ITEM_KINDS} from './Ability'
+
+// What a click paints in the editor
+export type EditTool = TerrainKind|'player'|'exit'|ItemKind|EnemyKind
+
+// A hand-made board, as exported by the editor or written into a campaign floor.
+// Hexes are referenced by Hex.key; cells missing from `terrain` are empty.
+export interface BoardLayout {
+    shape: BoardShape
+    terrain: { [key: string]: TerrainKind }
+    player: string
+    exit: string
+    pickups: { hex: string, kind: ItemKind }[]
+    enemies: { hex: string, kind: EnemyKind }[]
+}
+
+function invalid(message: string): never {
+    throw new Error(`Invalid board: ${message}`)
+}
+
+// Check a board loaded from JSON, filling in optional fields
+export function parseBoard(data: any): BoardLayout {
+    if (!data || (!data.shape && (typeof data.radius !== 'number' || data.radius < 2)))
+        invalid("expected a shape, or a radius of at least 2")
+
+    // Boards from before shapes only had a radius
+    const shape = parseShape(data.shape || { type: 'hexagon', radius: data.radius })
+    const keys = new Set(shapeHexes(shape).map(hex => hex.key))
+    const onBoard = (key: any) => {
+        if (typeof key !== 'string' || !/^-?\d+,-?\d+,-?\d+$/.test(key))
+            invalid(`"${key}" is not a hex key`)
+        if (!keys.has(key))
+            invalid(`${key} is not on the board`)
+        return key as string
+    }
+
+    const terrain: { [key: string]: TerrainKind } = {}
+    Object.keys(data.terrain || {}).forEach(key => {
+        if (!TERRAIN_TYPES[data.terrain[key]])
+            invalid(`unknown terrain "${data.terrain[key]}" at ${key}`)
+        terrain[onBoard(key)] = data.terrain[key]
+    })
+
+    const player = onBoard(data.player)
+    const exit = onBoard(data.exit)
+    if (player === exit)
+        invalid("the player can't start on the exit")
+
+    const enemies = ((data.enemies || []) as any[]).map(enemy => {
+        if (!ENEMY_TYPES[enemy.kind])
+            invalid(`unknown enemy type "${enemy.kind}"`)
+        return { hex: onBoard(enemy.hex), kind: enemy.kind as EnemyKind }
+    })
+
+    // Boards from before other items only had teleport crystals
+    const pickups = ((data.pickups || (data.crystals || []).map((hex: any) => ({ hex: hex, kind: 'teleport' }))) as any[]).map(pickup => {
+        if (ITEM_KINDS.indexOf(pickup.kind) === -1)
+            invalid(`unknown pickup "${pickup.kind}"`)
+        return { hex: onBoard(pickup.hex), kind: pickup.kind as ItemKind }
+    })
+
+    return {
+        shape: shape,
+        terrain: terrain,
+        player: player,
+        exit: exit,
+        pickups: pickups,
+        enemies: enemies
+    }
+}
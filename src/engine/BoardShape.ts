@@ -0,0 +1,110 @@
+import Hex from './Hex'
+
+// Outline of a board, centered on Hex.zero. Apart from the hexagon, shapes are measured in the columns
+// and rows they take up on screen, where every other column sits half a row lower.
+export type BoardShape = { type: 'hexagon', radius: number }
+                       | { type: 'parallelogram', width: number, height: number }
+                       | { type: 'rectangle', width: number, height: number }
+                       // One string per row, with "#" for each cell and anything else for a gap
+                       | { type: 'mask', rows: string[] }
+
+// Ways to place the player or exit relative to the board's outline, besides "random" or a fixed hex
+export const PLACEMENT_KEYWORDS = ['top', 'bottom', 'left', 'right', 'center']
+
+function invalid(message: string): never {
+    throw new Error(`Invalid board shape: ${message}`)
+}
+
+// Check a shape loaded from JSON
+export function parseShape(data: any): BoardShape {
+    const isSize = (value: any) => typeof value === 'number' && value >= 1 && Math.floor(value) === value
+
+    if (!data)
+        invalid("expected a shape")
+
+    if (data.type === 'hexagon') {
+        if (!isSize(data.radius) || data.radius < 2)
+            invalid("a hexagon needs a radius of at least 2")
+        return { type: 'hexagon', radius: data.radius }
+    } else if (data.type === 'parallelogram' || data.type === 'rectangle') {
+        if (!isSize(data.width) || !isSize(data.height) || data.width * data.height < 7)
+            invalid(`a ${data.type} needs a whole width and height, and room for at least 7 cells`)
+        return { type: data.type, width: data.width, height: data.height }
+    } else if (data.type === 'mask') {
+        if (!Array.isArray(data.rows) || !data.rows.every((row: any) => typeof row === 'string'))
+            invalid("a mask needs a list of rows")
+        const shape: BoardShape = { type: 'mask', rows: data.rows }
+        if (shapeHexes(shape).length < 7)
+            invalid("a mask needs at least 7 cells")
+        return shape
+    } else {
+        return invalid(`unknown type "${data.type}"`)
+    }
+}
+
+// Hex at a screen column and row, counted from the board's center
+function offsetHex(column: number, row: number): Hex {
+    const q = row - Math.floor(column/2)
+    return new Hex(q, column, -q-column)
+}
+
+export function shapeHexes(shape: BoardShape): Hex[] {
+    const hexes: Hex[] = []
+    if (shape.type === 'hexagon') {
+        return Hex.rings(Hex.zero, 0, shape.radius+1)
+    } else if (shape.type === 'parallelogram') {
+        for (let column = 0; column < shape.width; column++) {
+            for (let row = 0; row < shape.height; row++) {
+                const q = row - Math.floor(shape.height/2)
+                const r = column - Math.floor(shape.width/2)
+                hexes.push(new Hex(q, r, -q-r))
+            }
+        }
+    } else if (shape.type === 'rectangle') {
+        for (let column = 0; column < shape.width; column++)
+            for (let row = 0; row < shape.height; row++)
+                hexes.push(offsetHex(column - Math.floor(shape.width/2), row - Math.floor(shape.height/2)))
+    } else {
+        const width = Math.max(...shape.rows.map(row => row.length))
+        shape.rows.forEach((line, row) => {
+            for (let column = 0; column < line.length; column++)
+                if (line[column] === '#')
+                    hexes.push(offsetHex(column - Math.floor(width/2), row - Math.floor(shape.rows.length/2)))
+        })
+    }
+    return hexes
+}
+
+// Furthest any cell is from the center
+export function shapeRadius(hexes: Hex[]): number {
+    return Math.max(0, ...hexes.map(hex => Hex.distance(Hex.zero, hex)))
+}
+
+// The hex a placement keyword picks out of a board: the furthest one in that direction, in screen terms,
+// that isn't on the edge, so the same floor works at any size
+export function placementHex(hexes: Hex[], keyword: string): Hex {
+    const keys = new Set(hexes.map(hex => hex.key))
+    const inner = hexes.filter(hex => hex.neighbors.every(neighbor => keys.has(neighbor.key)))
+    const candidates = inner.length ? inner : hexes
+
+    // Screen position in hex widths, and a score for each keyword where lower is better
+    const x = (hex: Hex) => hex.r * 3/2
+    const y = (hex: Hex) => (hex.q + hex.r/2) * Math.sqrt(3)
+    const scores: { [keyword: string]: (hex: Hex) => [number, number] } = {
+        top: hex => [y(hex), Math.abs(x(hex))],
+        bottom: hex => [-y(hex), Math.abs(x(hex))],
+        left: hex => [x(hex), Math.abs(y(hex))],
+        right: hex => [-x(hex), Math.abs(y(hex))],
+        center: hex => [x(hex)*x(hex) + y(hex)*y(hex), 0]
+    }
+    const score = scores[keyword]
+
+    let best = candidates[0]
+    candidates.forEach(hex => {
+        const [a, b] = score(hex)
+        const [bestA, bestB] = score(best)
+        if (a < bestA - 1e-9 || (Math.abs(a - bestA) < 1e-9 && b < bestB - 1e-9))
+            best = hex
+    })
+    return best
+}
@@ -0,0 +1,203 @@
+import Hex from './Hex'
+import Cell from './Cell'
+import Random from './Random'
+import Game, {Command, GameState} from './Game'
+import Solver from './Solver'
+import {Campaign} from './Campaign'
+import {TerrainKind} from './TerrainType'
+import {EnemyKind} from './EnemyType'
+import {ItemKind, Inventory, ABILITIES, ABILITY_KINDS} from './Ability'
+
+// What a bot is told about the position it's playing. Hexes are "q,r,s" keys, so an observation can
+// be written out as JSON as it is. On fog floors it only holds what the player knows: cells out of
+// view have their remembered terrain, cells never seen are left out, and so are enemies out of view.
+export interface Observation {
+    floor: number
+    numFloors: number
+    state: GameState
+    cells: { hex: string, terrain: TerrainKind, isVisible: boolean }[]
+    player: string
+    exit: string
+    pickups: { hex: string, kind: ItemKind }[]
+    enemies: { hex: string, kind: EnemyKind, isAwake: boolean, isStunned: boolean }[]
+    inventory: Inventory
+    teleports: number
+    // Left to spend on barriers; undefined when the floor doesn't limit them
+    barrierEnergy?: number
+}
+
+// An automated player. It's handed the game too, for bots that search with the engine itself (as
+// Solver does); anything else should go by the observation, which respects fog of war.
+export interface Bot {
+    name: string
+    // Pick one of the legal actions
+    act(observation: Observation, actions: Command[], game: Game): Command
+}
+
+export interface RunResult {
+    seed: number
+    // Furthest floor reached, and how the run ended there: 'final' for a win, 'timeout' when the
+    // bot took too many turns over one floor
+    floor: number
+    outcome: GameState|'timeout'
+    turns: number
+}
+
+export interface TournamentStats {
+    runs: number
+    wins: number
+    winRate: number
+    averageFloor: number
+    failures: number
+    stuck: number
+    timeouts: number
+}
+
+// A bot that wanders about for this many turns on one floor is stopped
+const MAX_FLOOR_TURNS = 300
+const SOLVER_BOT_BUDGET = { maxTurns: 40, maxNodes: 200 }
+
+export function observe(game: Game): Observation {
+    const isKnown = (cell: Cell) => !game.hasFog || cell.isVisible || cell.remembered !== undefined
+    const isSeen = (cell: Cell) => !game.hasFog || cell.isVisible
+
+    return {
+        floor: game.floor,
+        numFloors: game.campaign.floors.length,
+        state: game.state,
+        cells: game.cells.filter(isKnown).map(cell => ({
+            hex: cell.hex.key,
+            terrain: (isSeen(cell) ? cell.terrain : cell.remembered || cell.terrain).kind,
+            isVisible: isSeen(cell)
+        })),
+        player: game.playerCell.hex.key,
+        exit: game.exitCell.hex.key,
+        pickups: game.pickups.filter(pickup => isKnown(pickup.cell)).map(pickup => ({ hex: pickup.cell.hex.key, kind: pickup.kind })),
+        enemies: game.enemies.filter(enemy => isSeen(enemy.cell)).map(enemy => ({
+            hex: enemy.cell.hex.key,
+            kind: enemy.type.kind,
+            isAwake: enemy.isAwake,
+            isStunned: enemy.isStunned
+        })),
+        inventory: game.inventory,
+        teleports: game.inventory.teleport,
+        barrierEnergy: game.barrierEnergy
+    }
+}
+
+// Every distinct wall that lineTo can draw and there's energy for, as the pair of cells it runs
+// between. Lines that get cut short at the same blocked cell, or run the same way in reverse, make
+// the same wall, so each wall is listed once. This follows barrierLine, but looks each cell up once rather than for every pair,
+// as that's far too slow over a whole board.
+function barrierTargets(game: Game): Cell[][] {
+    const index: Map<Cell, number> = new Map()
+    // Walls can start or end on the player or an enemy, and cover the open cells in between
+    const pathable = game.cells.filter(cell => cell.isPathable)
+    pathable.forEach(cell => index.set(cell, index.size))
+    const isOpen = new Set(pathable.filter(cell => cell.isEmpty))
+    const maxCells = game.barrierEnergy === undefined ? Infinity : Math.floor(game.barrierEnergy / game.floorSpec.barriers.cost)
+
+    const seen: Set<string> = new Set()
+    const targets: Cell[][] = []
+    pathable.forEach(from => {
+        pathable.forEach(to => {
+            const wall: number[] = []
+            for (let hex of Hex.lineBetween(from.hex, to.hex)) {
+                const cell = game.hexGrid.get(hex)
+                if (!cell || !index.has(cell)) break
+                if (isOpen.has(cell)) wall.push(index.get(cell) as number)
+            }
+
+            const key = wall.sort((a, b) => a - b).join(";")
+            if (!wall.length || wall.length > maxCells || seen.has(key)) return
+            seen.add(key)
+            targets.push([from, to])
+        })
+    })
+    return targets
+}
+
+// Everything the player could do from the current position: a step to any of the six neighbors,
+// a fast move to the exit or a pickup when nothing can give chase, and every way of using each ability
+export function legalActions(game: Game): Command[] {
+    if (game.state !== 'game') return []
+
+    const commands: Command[] = []
+    const fastMoves = game.isSafe && !game.isEndgame ? [game.exitCell].concat(game.pickups.map(pickup => pickup.cell)) : []
+    const moves = game.playerCell.neighbors.concat(fastMoves.filter(cell => game.playerCell.neighbors.indexOf(cell) === -1))
+    moves.filter(cell => game.moveDestination(cell.hex) === cell).forEach(cell => {
+        commands.push({ type: 'move', hex: cell.hex })
+    })
+
+    ABILITY_KINDS.forEach(kind => {
+        const ability = ABILITIES[kind]
+        if (!ability.isReady(game)) return
+        // Walls are checked as they're found
+        const choices: Cell[][] = ability.targets === 2 ? barrierTargets(game)
+            : (ability.targets === 0 ? [[]] : ability.targetCells(game, []).map(cell => [cell])).filter(targets => ability.canUse(game, targets))
+        choices.forEach(targets => {
+            commands.push({ type: 'ability', ability: kind, targets: targets.map(cell => cell.hex) })
+        })
+    })
+
+    return commands
+}
+
+// Play one full run, from the first floor until it's won or lost. An illegal action is an error in the bot.
+export function playRun(bot: Bot, campaign: Campaign, seed: number): RunResult {
+    const game = new Game({ campaign: campaign, seed: seed })
+    game.isRecording = false
+    let turns = 0
+    let floorTurns = 0
+
+    while (game.state === 'game' || game.state === 'success') {
+        if (game.state === 'success') {
+            game.nextFloor()
+            floorTurns = 0
+            continue
+        }
+
+        const actions = legalActions(game)
+        // Boxed in by enemies with nothing to use is as good as stuck
+        if (!actions.length)
+            return { seed: seed, floor: game.floor, outcome: 'stuck', turns: turns }
+        if (floorTurns >= MAX_FLOOR_TURNS)
+            return { seed: seed, floor: game.floor, outcome: 'timeout', turns: turns }
+
+        const command = bot.act(observe(game), actions, game)
+        if (!game.execute(command))
+            throw new Error(`Bot "${bot.name}" played an illegal action on floor ${game.floor}: ${JSON.stringify(command)}`)
+        turns += 1
+        floorTurns += 1
+    }
+
+    return { seed: seed, floor: game.floor, outcome: game.state, turns: turns }
+}
+
+export function tournamentStats(results: RunResult[]): TournamentStats {
+    const count = (outcome: string) => results.filter(result => result.outcome === outcome).length
+    const wins = count('final')
+    return {
+        runs: results.length,
+        wins: wins,
+        winRate: results.length ? wins / results.length : 0,
+        averageFloor: results.length ? results.reduce((total, result) => total + result.floor, 0) / results.length : 0,
+        failures: count('failure'),
+        stuck: count('stuck'),
+        timeouts: count('timeout')
+    }
+}
+
+// Bots that come with the game, as baselines to measure others against
+export const BOTS: { [name: string]: () => Bot } = {
+    // Any legal action at all, from a fixed seed so its runs can be repeated
+    random: () => {
+        const rng = new Random(1)
+        return { name: 'random', act: (observation, actions) => rng.sample(actions) }
+    },
+    // Plays the hints the game would give
+    solver: () => ({
+        name: 'solver',
+        act: (observation, actions, game) => new Solver(game, SOLVER_BOT_BUDGET).hint() || actions[0]
+    })
+}
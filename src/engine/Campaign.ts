@@ -0,0 +1,187 @@
+import Hex from './Hex'
+import Random from './Random'
+import {EnemyKind, EnemyType, ENEMY_TYPES, ENEMY_KINDS} from './EnemyType'
+import {BoardLayout, parseBoard} from './Board'
+import {BoardShape, PLACEMENT_KEYWORDS, parseShape} from './BoardShape'
+import {TacticsKind, TACTICS} from './Tactics'
+import {ITEM_KINDS} from './Ability'
+import {LayoutKind, LAYOUTS, ringBand, layoutsFor} from './Layout'
+
+declare const require: any
+
+export type PillarSpec = { pattern: 'none' }
+                       | { pattern: 'rings', inner: number[], outer: number[] }
+                       | { pattern: 'fixed', hexes: string[] }
+                       // One of the listed layouts, or any the floor number has unlocked (see Layout.fromFloor)
+                       | { pattern: 'random', layouts?: LayoutKind[] }
+
+export interface BarrierSpec {
+    // Energy available for barriers on the floor; unlimited when omitted
+    energy?: number
+    // Energy spent per cell of wall
+    cost: number
+    // Turns a barrier lasts before crumbling; permanent when omitted
+    lifetime?: number
+}
+
+// One floor of a campaign. Everything here is plain JSON so campaigns can be written as data files.
+export interface FloorSpec {
+    // Outline of the board; a plain `radius` in the JSON is short for a hexagon
+    shape: BoardShape
+    // How many enemies, and relative weights for picking each one's type (all chasers if omitted)
+    enemies: { count: number, mix?: { [kind: string]: number } }
+    pillars: PillarSpec
+    // How many of each item to scatter; a plain `crystals` count in the JSON is short for teleports
+    pickups: { [kind: string]: number }
+    // How cleverly the enemies move; greedy when omitted
+    tactics: TacticsKind
+    // Fog of war: how many cells away the player can see. The whole board is in view when omitted.
+    sight?: number
+    barriers: BarrierSpec
+    // Hex.key of a fixed cell, a side of the board like "bottom" (see PLACEMENT_KEYWORDS), or "random"
+    player: string
+    exit: string
+    // Paragraphs shown before the floor starts. [text](role) colors text like the board, e.g. [chaos](enemy)
+    story?: string[]
+    // The last floor: no enemies or abilities, just the reunion
+    finale?: boolean
+    // A hand-made board from the editor, used instead of generating one. The other layout fields are ignored.
+    board?: BoardLayout
+}
+
+export interface Campaign {
+    id: string
+    name: string
+    floors: FloorSpec[]
+}
+
+function invalid(message: string): never {
+    throw new Error(`Invalid campaign: ${message}`)
+}
+
+function isPlacement(value: any): boolean {
+    return value === 'random' || PLACEMENT_KEYWORDS.indexOf(value) !== -1 || (typeof value === 'string' && /^-?\d+,-?\d+,-?\d+$/.test(value))
+}
+
+// Check a campaign loaded from JSON, filling in optional fields
+export function parseCampaign(data: any): Campaign {
+    if (!data || typeof data.id !== 'string' || !Array.isArray(data.floors) || !data.floors.length)
+        invalid("expected an id and a non-empty list of floors")
+
+    const floors = (data.floors as any[]).map((floor, i): FloorSpec => {
+        const where = `floor ${i+1}`
+        const barriers = floor.barriers || {}
+        if (['energy', 'cost', 'lifetime'].some(key => barriers[key] !== undefined && !(barriers[key] >= 0)))
+            invalid(`${where} has barrier settings that aren't positive numbers`)
+        if (floor.tactics !== undefined && !TACTICS[floor.tactics])
+            invalid(`${where} has unknown tactics "${floor.tactics}"`)
+        const tactics: TacticsKind = floor.tactics || 'greedy'
+        if (floor.sight !== undefined && !(floor.sight >= 1))
+            invalid(`${where} has a sight that isn't a positive number`)
+
+        const pickups = Object.assign({ teleport: floor.crystals || 0 }, floor.pickups)
+        Object.keys(pickups).forEach(kind => {
+            if (ITEM_KINDS.indexOf(kind as any) === -1) invalid(`${where} has unknown pickup "${kind}"`)
+            if (!(pickups[kind] >= 0)) invalid(`${where} has a ${kind} pickup count that isn't a positive number`)
+        })
+
+        const barrierSpec: BarrierSpec = {
+            energy: barriers.energy,
+            cost: barriers.cost !== undefined ? barriers.cost : 1,
+            lifetime: barriers.lifetime
+        }
+
+        if (floor.board) {
+            const board = parseBoard(floor.board)
+            return {
+                shape: board.shape,
+                enemies: { count: board.enemies.length },
+                pillars: { pattern: 'none' },
+                pickups: ITEM_KINDS.reduce((counts, kind) => Object.assign(counts, { [kind]: board.pickups.filter(pickup => pickup.kind === kind).length }), {}),
+                tactics: tactics,
+                sight: floor.sight,
+                barriers: barrierSpec,
+                player: board.player,
+                exit: board.exit,
+                story: floor.story,
+                finale: !!floor.finale,
+                board: board
+            }
+        }
+
+        if (!floor.shape && (typeof floor.radius !== 'number' || floor.radius < 2))
+            invalid(`${where} needs a shape, or a radius of at least 2`)
+        if (!floor.enemies || typeof floor.enemies.count !== 'number')
+            invalid(`${where} needs an enemy count`)
+        Object.keys(floor.enemies.mix || {}).forEach(kind => {
+            if (!ENEMY_TYPES[kind]) invalid(`${where} has unknown enemy type "${kind}"`)
+        })
+        if (!isPlacement(floor.player) || !isPlacement(floor.exit))
+            invalid(`${where} needs player and exit placements: "q,r,s", one of ${PLACEMENT_KEYWORDS.join("/")}, or "random"`)
+
+        const pillars = floor.pillars || { pattern: 'none' }
+        if (['none', 'rings', 'fixed', 'random'].indexOf(pillars.pattern) === -1)
+            invalid(`${where} has unknown pillar pattern "${pillars.pattern}"`)
+        if (pillars.layouts !== undefined) {
+            if (!Array.isArray(pillars.layouts) || !pillars.layouts.length)
+                invalid(`${where} needs at least one pillar layout to pick from`)
+            pillars.layouts.forEach((kind: string) => {
+                if (!LAYOUTS[kind]) invalid(`${where} has unknown pillar layout "${kind}"`)
+            })
+        }
+
+        return {
+            shape: parseShape(floor.shape || { type: 'hexagon', radius: floor.radius }),
+            enemies: { count: floor.enemies.count, mix: floor.enemies.mix },
+            pillars: pillars,
+            pickups: pickups,
+            tactics: tactics,
+            sight: floor.sight,
+            barriers: barrierSpec,
+            player: floor.player,
+            exit: floor.exit,
+            story: floor.story,
+            finale: !!floor.finale
+        }
+    })
+
+    return { id: data.id, name: data.name || data.id, floors: floors }
+}
+
+export const DEFAULT_CAMPAIGN = parseCampaign(require('../campaigns/default.json'))
+
+export function pillarHexes(pillars: PillarSpec, rng: Random, board: Hex[], floor: number): Hex[] {
+    if (pillars.pattern === 'rings')
+        return ringBand(rng, pillars.inner, pillars.outer)
+    else if (pillars.pattern === 'random')
+        return LAYOUTS[rng.sample(layoutsFor(floor, pillars.layouts))].generate(board, rng)
+    else if (pillars.pattern === 'fixed')
+        return pillars.hexes.map(key => Hex.fromKey(key))
+    else
+        return []
+}
+
+export function pickEnemyTypes(floor: FloorSpec, rng: Random): EnemyType[] {
+    const mix = floor.enemies.mix || { chaser: 1 }
+    const kinds = Object.keys(mix).filter(kind => mix[kind] > 0)
+    const total = kinds.reduce((sum, kind) => sum + mix[kind], 0)
+
+    const types: EnemyType[] = []
+    for (let i = 0; i < floor.enemies.count; i++) {
+        let roll = rng.next() * total
+        const kind = kinds.find(kind => (roll -= mix[kind]) < 0) || kinds[kinds.length-1]
+        types.push(ENEMY_TYPES[kind])
+    }
+    return types
+}
+
+// Enemy kinds the player has met by the given floor
+export function enemyKindsUpTo(campaign: Campaign, floor: number): EnemyKind[] {
+    const floors = campaign.floors.slice(0, floor)
+    return ENEMY_KINDS.filter(kind => floors.some(spec => {
+        if (spec.board)
+            return spec.board.enemies.some(enemy => enemy.kind === kind)
+        const mix = spec.enemies.mix || { chaser: 1 }
+        return spec.enemies.count > 0 && mix[kind] > 0
+    }))
+}
@@ -0,0 +1,80 @@
+import {observable, computed} from 'mobx'
+import Hex from './Hex'
+import {TerrainType, TERRAIN_TYPES} from './TerrainType'
+import Game from './Game'
+
+export default class Cell {
+    game: Game
+    hex: Hex
+    @observable.ref terrainType: TerrainType = TERRAIN_TYPES.empty
+    // Turns left before a decaying barrier crumbles
+    @observable expiresIn?: number
+    // In fog, the terrain as the player last saw it; undefined until it has been in view
+    @observable.ref remembered?: TerrainType
+
+    constructor(game: Game, hex: Hex) {
+        this.game = game
+        this.hex = hex
+    }
+
+    get terrain(): TerrainType {
+        return this.terrainType
+    }
+
+    // Paths depend on terrain, so changing it tells the game its distance fields are stale
+    set terrain(terrain: TerrainType) {
+        if (terrain === this.terrainType) return
+        this.terrainType = terrain
+        this.game.terrainVersion += 1
+    }
+
+    @computed get neighbors(): Cell[] {
+        return this.hex.neighbors.map(hex => this.game.hexGrid.get(hex)).filter(cell => cell)
+    }
+
+    @computed get isPathable(): boolean {
+        return this.terrain.pathable
+    }
+
+    @computed get isOccupied(): boolean {
+        return this === this.game.playerCell || this.game.enemies.some(enemy => enemy.cell === this)
+    }
+
+    @computed get isEmpty(): boolean {
+        return this.isPathable && !this.isOccupied
+    }
+
+    // Whether the player can see this cell right now
+    @computed get isVisible(): boolean {
+        return this.game.canSee(this.game.playerCell, this)
+    }
+
+    // Whether no enemy could reach this cell on its next turn
+    @computed get isSafe(): boolean {
+        for (let enemy of this.game.enemies) {
+            if (enemy.cell !== this && Hex.distance(enemy.cell.hex, this.hex) <= enemy.type.speed)
+                return false
+        }
+
+        return true
+    }
+
+    circle(radius: number): Cell[] {
+        return Hex.rings(this.hex, 0, radius).map(hex => this.game.hexGrid.get(hex)).filter(cell => cell)
+    }
+
+    lineTo(b: Cell) {
+        const cells = []
+        for (let hex of Hex.lineBetween(this.hex, b.hex)) {
+            const cell = this.game.hexGrid.get(hex)
+            if (cell && cell.isPathable) {
+                cells.push(cell)
+            } else break;
+        }
+        return cells
+    }
+
+    pathTo(b: Cell) {
+        return this.game.pathBetween(this, b)
+    }
+}
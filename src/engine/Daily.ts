@@ -0,0 +1,37 @@
+import {RunSummary} from './RunStats'
+import {GameState} from './Game'
+
+// Today's date as used for daily seeds: the player's own calendar day, "YYYY-MM-DD"
+export function dailyDateFor(now: Date): string {
+    const pad = (n: number) => (n < 10 ? "0" : "") + n
+    return `${now.getFullYear()}-${pad(now.getMonth()+1)}-${pad(now.getDate())}`
+}
+
+// One emoji per floor: cleared, cleared with hints, where the run ended, and floors never reached
+function floorEmoji(run: RunSummary, state: GameState, index: number): string {
+    const floor = run.floors[index]
+    if (index < run.floorsCleared && run.finished && index === run.floorsCleared-1)
+        return "💚"
+    else if (index < run.floorsCleared)
+        return floor && floor.hintsUsed ? "🟦" : "🟩"
+    else if (index === run.floorsCleared && !run.finished)
+        return state === 'stuck' ? "🟧" : state === 'failure' ? "🟥" : "🟨"
+    else
+        return "⬛"
+}
+
+// Spoiler-free result to paste elsewhere. Floors are laid out in two offset rows, like a strip of hexes.
+export function dailyShareText(run: RunSummary, state: GameState, floorCount: number): string {
+    const emoji: string[] = []
+    for (let i = 0; i < floorCount; i++)
+        emoji.push(floorEmoji(run, state, i))
+    const half = Math.ceil(floorCount / 2)
+    const turns = run.floors.reduce((total, floor) => total + floor.turns, 0)
+
+    return [
+        `Pathspire daily ${run.dailyDate}`,
+        `${run.floorsCleared}/${floorCount} floors · ${turns} turns · score ${run.score}`,
+        emoji.slice(0, half).join(""),
+        " " + emoji.slice(half).join("")
+    ].join("\n")
+}
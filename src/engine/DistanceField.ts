@@ -0,0 +1,101 @@
+import {HexGrid} from './Hex'
+import Cell from './Cell'
+
+// Walking distances from every cell to a single goal, found with one breadth-first search outwards
+// from the goal. All the enemies chase the player, so a field around the player answers every one of
+// their paths at once. As with Game.pathBetween, the two ends of a path may be blocked but nothing in
+// between can be, apart from up to `phase` phaseable cells.
+export default class DistanceField {
+    grid: HexGrid<Cell>
+    goal: Cell
+    phase: number
+    // Game.terrainVersion when the field was built, to tell when it's out of date
+    terrainVersion: number
+    // One search state per grid index and number of cells phased through so far:
+    // steps left to the goal (-1 if unreached), and the next state on the way there
+    steps: Int32Array
+    next: Int32Array
+
+    constructor(grid: HexGrid<Cell>, goal: Cell, phase: number, terrainVersion: number) {
+        this.grid = grid
+        this.goal = goal
+        this.phase = phase
+        this.terrainVersion = terrainVersion
+
+        const layers = phase + 1
+        this.steps = new Int32Array(grid.values.length * layers).fill(-1)
+        this.next = new Int32Array(grid.values.length * layers).fill(-1)
+
+        const start = grid.index(goal.hex) * layers
+        this.steps[start] = 0
+        const queue = [start]
+        for (let i = 0; i < queue.length; i++) {
+            const state = queue[i]
+            const cell = grid.values[Math.floor(state / layers)] as Cell
+            let crossed = state % layers
+
+            // A blocked cell can start a path, but only a phaser can carry on through it
+            if (cell !== goal && !cell.isPathable) {
+                if (!cell.terrain.phaseable || crossed >= phase) continue
+                crossed += 1
+            }
+
+            cell.neighbors.forEach(neighbor => {
+                const base = grid.index(neighbor.hex) * layers
+                // Already reached having phased through no more cells than this
+                for (let j = 0; j <= crossed; j++)
+                    if (this.steps[base + j] !== -1) return
+
+                this.steps[base + crossed] = this.steps[state] + 1
+                this.next[base + crossed] = state
+                queue.push(base + crossed)
+            })
+        }
+    }
+
+    // Search state with the fewest steps for a cell, or -1 if it can't reach the goal
+    bestState(cell: Cell): number {
+        const layers = this.phase + 1
+        const base = this.grid.index(cell.hex) * layers
+        let best = -1
+        for (let i = base; i < base + layers; i++) {
+            if (this.steps[i] !== -1 && (best === -1 || this.steps[i] < this.steps[best]))
+                best = i
+        }
+        return best
+    }
+
+    distance(cell: Cell): number {
+        const state = this.bestState(cell)
+        return state === -1 ? Infinity : this.steps[state]
+    }
+
+    reaches(cell: Cell): boolean {
+        return this.bestState(cell) !== -1
+    }
+
+    // Route from a cell to the goal, leaving out the cell itself; empty if there's none
+    pathFrom(cell: Cell): Cell[] {
+        const layers = this.phase + 1
+        const path: Cell[] = []
+        let state = this.bestState(cell)
+        if (state === -1) return path
+
+        while (this.next[state] !== -1) {
+            state = this.next[state]
+            path.push(this.grid.values[Math.floor(state / layers)] as Cell)
+        }
+        return path
+    }
+
+    // Route from the goal out to a cell, leaving out the goal
+    pathTo(cell: Cell): Cell[] {
+        const path = this.pathFrom(cell)
+        if (!path.length) return path
+
+        path.pop()
+        path.reverse()
+        path.push(cell)
+        return path
+    }
+}
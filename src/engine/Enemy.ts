@@ -0,0 +1,82 @@
+import {observable, computed} from 'mobx'
+import Hex from './Hex'
+import Cell from './Cell'
+import Game from './Game'
+import {EnemyType, EnemyKind, ENEMY_TYPES} from './EnemyType'
+
+export interface EnemySnapshot {
+    cell: Cell
+    kind: EnemyKind
+    isAwake: boolean
+    isStunned: boolean
+}
+
+// player is green tile
+// moves towards exit (white tile?)
+// red tile enemies
+// create blue tile barriers to block path of enemies
+export default class Enemy {
+    static fromSnapshot(game: Game, snapshot: EnemySnapshot): Enemy {
+        return new Enemy(game, snapshot.cell, ENEMY_TYPES[snapshot.kind], snapshot.isAwake, snapshot.isStunned)
+    }
+
+    game: Game
+    type: EnemyType
+    @observable cell: Cell
+    @observable isAwake: boolean
+    // Skips its next move
+    @observable isStunned: boolean
+
+    // In fog, enemies start out unaware of the player
+    constructor(game: Game, cell: Cell, type: EnemyType = ENEMY_TYPES.chaser, isAwake: boolean = type.wakeRadius === undefined && !game.hasFog, isStunned: boolean = false) {
+        this.game = game
+        this.cell = cell
+        this.type = type
+        this.isAwake = isAwake
+        this.isStunned = isStunned
+    }
+
+    // The route this enemy would take to reach the player
+    @computed get path(): Cell[] {
+        return this.game.distanceField(this.type.phase).pathFrom(this.cell)
+    }
+
+    // No way left to reach the player. In fog, one that hasn't spotted the player yet still counts as a
+    // threat, as it could on any turn.
+    @computed get isDefeated(): boolean {
+        return this.path.length == 0
+    }
+
+    canEnter(cell: Cell): boolean {
+        if (cell === this.game.playerCell) return true
+        return cell.isEmpty || (this.type.phase > 0 && cell.terrain.phaseable && !cell.isOccupied)
+    }
+
+    // Sentries stir once the player comes close, and in fog nothing gives chase until it has the player in
+    // sight. Returns whether the enemy gets to move this turn, which a stunned one doesn't.
+    wake(): boolean {
+        const {game, type} = this
+        const isClose = type.wakeRadius === undefined || Hex.distance(this.cell.hex, game.playerCell.hex) <= type.wakeRadius
+        if (!this.isAwake && isClose && game.canSee(this.cell, game.playerCell))
+            this.isAwake = true
+        return this.isAwake && !this.isStunned
+    }
+
+    // Advance towards the player according to this enemy's type
+    takeTurn() {
+        const {game} = this
+        if (!this.wake()) return
+
+        for (let i = 0; i < this.type.speed && this.cell !== game.playerCell; i++) {
+            const path = this.path
+            if (path.length && this.canEnter(path[0]))
+                this.cell = path[0]
+            else
+                break
+        }
+    }
+
+    snapshot(): EnemySnapshot {
+        return { cell: this.cell, kind: this.type.kind, isAwake: this.isAwake, isStunned: this.isStunned }
+    }
+}
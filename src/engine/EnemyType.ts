@@ -0,0 +1,39 @@
+export type EnemyKind = 'chaser'|'fast'|'phaser'|'sentry'
+
+export interface EnemyType {
+    kind: EnemyKind
+    name: string
+    color: string
+    description: string
+    // Steps taken per turn
+    speed: number
+    // How many barrier cells a single path may pass through
+    phase: number
+    // Sentries stay put until the player comes within this distance
+    wakeRadius?: number
+}
+
+export const ENEMY_TYPES: { [kind: string]: EnemyType } = {
+    chaser: {
+        kind: 'chaser', name: "chaotic entity", color: "red",
+        description: "steps towards you each turn.",
+        speed: 1, phase: 0
+    },
+    sentry: {
+        kind: 'sentry', name: "dormant sentry", color: "firebrick",
+        description: "waits until you come close, then gives chase.",
+        speed: 1, phase: 0, wakeRadius: 4
+    },
+    fast: {
+        kind: 'fast', name: "frenzied entity", color: "hotpink",
+        description: "moves two cells every turn.",
+        speed: 2, phase: 0
+    },
+    phaser: {
+        kind: 'phaser', name: "phasing entity", color: "slateblue",
+        description: "can slip through a barrier one cell thick.",
+        speed: 1, phase: 1
+    }
+}
+
+export const ENEMY_KINDS = Object.keys(ENEMY_TYPES) as EnemyKind[]
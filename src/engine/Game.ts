@@ -0,0 +1,734 @@
+import {observable, computed, action} from 'mobx'
+import PriorityQueue from './PriorityQueue'
+import Random from './Random'
+import Hex, {HexGrid} from './Hex'
+import Cell from './Cell'
+import DistanceField from './DistanceField'
+import {TACTICS} from './Tactics'
+import {AbilityKind, ItemKind, Inventory, Pickup, ABILITIES, ITEM_KINDS, emptyInventory} from './Ability'
+import Enemy from './Enemy'
+import TurnHistory from './TurnHistory'
+import Solver, {SolverOptions} from './Solver'
+import {SavedGame, SAVE_VERSION} from './SavedGame'
+import {ENEMY_TYPES} from './EnemyType'
+import {Campaign, FloorSpec, DEFAULT_CAMPAIGN, pillarHexes, pickEnemyTypes} from './Campaign'
+import {BoardLayout, EditTool} from './Board'
+import {BoardShape, PLACEMENT_KEYWORDS, shapeHexes, shapeRadius, placementHex} from './BoardShape'
+import {TerrainKind, TERRAIN_TYPES} from './TerrainType'
+import {Replay, ReplayEntry, REPLAY_VERSION, encodeEntry} from './Replay'
+import {FloorStats, RunSummary, emptyFloorStats, scoreRun} from './RunStats'
+import {TELEPORT_RANGE} from './constants'
+
+export type GameState = 'game'|'success'|'failure'|'stuck'|'final'
+// Free play deals a new seed every run; daily runs all use the seed for one calendar day
+export type GameMode = 'free'|'daily'
+
+// Layouts the solver finds no win on are rerolled, up to this many times. The search is budgeted, so
+// crowded floors often can't be decided either way; those are dealt as they are (see dealBoard).
+const MAX_REROLLS = 10
+// Pillar layouts are redrawn this many times when they cut the player off from the exit
+const MAX_LAYOUT_ATTEMPTS = 10
+const GENERATION_BUDGET: SolverOptions = { maxTurns: 40, maxNodes: 300 }
+// A longer, wider search for the rare floor where every layout came up short, before taking enemies off it
+const FALLBACK_BUDGET: SolverOptions = { maxTurns: 60, maxNodes: 2000 }
+const HINT_BUDGET: SolverOptions = { maxTurns: 40, maxNodes: 200 }
+// How many enemy turns a hint makes sure the player survives when no winning line is found
+const HINT_LOOKAHEAD = 3
+
+// A single player action. Hexes rather than cells so commands can be built without a board at hand.
+// An ability takes as many targets as it asks for, e.g. a barrier's two ends.
+export type Command = { type: 'move', hex: Hex }
+                    | { type: 'ability', ability: AbilityKind, targets: Hex[] }
+
+export default class Game {
+    @observable playerCell: Cell
+    @observable exitCell: Cell
+    @observable pickups: Pickup[] = []
+    @observable enemies: Enemy[] = []
+    @observable.ref inventory: Inventory = emptyInventory()
+    // Left to spend on barriers this floor; undefined when the floor doesn't limit them
+    @observable barrierEnergy?: number
+    @observable hintsUsed: number = 0
+    @observable.ref floorStats: FloorStats = emptyFloorStats(1)
+    @observable.shallow completedFloors: FloorStats[] = []
+    startedAt: number = Date.now()
+    endedAt?: number
+    @observable floor: number
+    @observable seed: number
+    @observable state: GameState = 'game'
+    @observable mode: GameMode = 'free'
+    // The day a daily run belongs to, as "YYYY-MM-DD"
+    @observable dailyDate?: string
+    // Usually the floor's shape, but a hand-made board brings its own
+    @observable.ref shape: BoardShape
+
+    @computed get floorSpec(): FloorSpec {
+        return this.campaign.floors[this.floor-1]
+    }
+
+    @computed get numEnemies(): number {
+        return this.floorSpec.enemies.count
+    }
+
+    @computed get boardHexes(): Hex[] {
+        return shapeHexes(this.shape)
+    }
+
+    // Furthest any cell is from the center
+    @computed get radius(): number {
+        return shapeRadius(this.boardHexes)
+    }
+
+    @computed get cells(): Cell[] {
+        return this.boardHexes.map(hex => this.hexGrid.get(hex) as Cell)
+    }
+
+    @computed get hasFog(): boolean {
+        return this.floorSpec.sight !== undefined
+    }
+
+    // Whether nothing can catch the player, so moving straight to the exit or a pickup is allowed
+    @computed get isSafe(): boolean {
+        return this.enemies.every(enemy => enemy.isDefeated)
+    }
+
+    @computed get isEndgame(): boolean {
+        return !!this.floorSpec.finale
+    }
+
+    @computed get isLastFloor(): boolean {
+        return this.floor === this.campaign.floors.length
+    }
+
+    @computed get teleportTargets(): Cell[] {
+        return this.playerCell.circle(TELEPORT_RANGE).filter(cell => cell.isEmpty)
+    }
+
+    // Seed for the current floor's layout, derived from the run seed
+    @computed get floorSeed(): number {
+        return Random.floorSeed(this.seed, this.floor)
+    }
+
+    @observable.ref hexGrid: HexGrid<Cell> = new HexGrid<Cell>(0)
+    // Bumped whenever any cell's terrain changes
+    @observable terrainVersion: number = 0
+    // Cached distanceField for each phase
+    distanceFields: DistanceField[] = []
+    history: TurnHistory = new TurnHistory(this)
+    campaign: Campaign
+    // Set when the run was started from a specific seed (e.g. ?seed= in the url), so restarts replay it
+    startSeed?: number
+    startFloor: number
+    // Every command played this run, floor by floor, for watching it back
+    replay: Replay
+    // Off while the solver tries out moves, and for games that are themselves playing back a replay
+    isRecording: boolean = true
+    // A saved run resumes where it left off, instead of dealing a new one. Passing a daily date starts that day's run.
+    constructor(options: { seed?: number, floor?: number, campaign?: Campaign, saved?: SavedGame, daily?: string } = {}) {
+        this.campaign = options.campaign || DEFAULT_CAMPAIGN
+        this.startSeed = options.seed
+        this.startFloor = options.floor !== undefined ? Math.max(1, Math.min(this.campaign.floors.length, options.floor)) : 1
+
+        if (options.saved)
+            this.load(options.saved)
+        else if (options.daily !== undefined)
+            this.startDaily(options.daily)
+        else
+            this.resetGame()
+    }
+
+    // Floors can differ in shape, so the grid is rebuilt whenever the current one doesn't fit
+    buildGrid() {
+        const {boardHexes} = this
+        if (this.hexGrid.size === boardHexes.length && boardHexes.every(hex => this.hexGrid.get(hex) !== undefined))
+            return
+
+        const bounds = Math.max(...boardHexes.map(hex => Math.max(Math.abs(hex.q), Math.abs(hex.r))))
+        const grid = new HexGrid<Cell>(bounds)
+        boardHexes.forEach(hex => grid.set(hex, new Cell(this, hex)))
+        this.hexGrid = grid
+    }
+
+    // Start over in the current mode: the same day's seed from floor 1 for daily runs
+    @action.bound resetGame() {
+        if (this.mode === 'daily' && this.dailyDate !== undefined) {
+            this.seed = Random.dailySeed(this.dailyDate)
+            this.floor = 1
+        } else {
+            this.seed = this.startSeed !== undefined ? this.startSeed : Random.randomSeed()
+            this.floor = this.startFloor
+        }
+        this.inventory = emptyInventory()
+        this.hintsUsed = 0
+        this.completedFloors = []
+        this.startedAt = Date.now()
+        this.endedAt = undefined
+        this.replay = { version: REPLAY_VERSION, campaign: this.campaign.id, seed: this.seed, floors: [] }
+        this.setupBoard()
+    }
+
+    // Throw away the current run, including any seed it was started from
+    @action.bound newRun() {
+        this.mode = 'free'
+        this.dailyDate = undefined
+        this.startSeed = undefined
+        this.startFloor = 1
+        this.resetGame()
+    }
+
+    @action.bound startDaily(date: string) {
+        this.mode = 'daily'
+        this.dailyDate = date
+        this.resetGame()
+    }
+
+    @action.bound setupBoard() {
+        this.floorStats = emptyFloorStats(this.floor)
+        this.dealBoard()
+        this.reveal()
+        this.recordFloorStart()
+    }
+
+    dealBoard() {
+        const rng = new Random(this.floorSeed)
+        this.history.clear()
+        this.state = 'game'
+        this.shape = this.floorSpec.shape
+        this.buildGrid()
+
+        if (this.floorSpec.board) {
+            this.loadBoard(this.floorSpec.board)
+            return
+        }
+
+        for (let attempt = 0; attempt < MAX_REROLLS; attempt++) {
+            this.generateBoard(rng)
+            if (this.isEndgame) return
+
+            // Undecided means the floor is too crowded for the search to finish, not that it can't be won
+            if (new Solver(this, GENERATION_BUDGET).solve().solvable !== false) return
+        }
+
+        this.thinEnemies()
+    }
+
+    // Take enemies off the last layout, nearest the player first, for as long as a bigger search still finds
+    // no win. With none left a win is always found, as generateBoard keeps a way open to the exit. Rather than
+    // trying each count in turn, this searches for the most enemies that can be kept, assuming fewer never
+    // makes it harder.
+    thinEnemies() {
+        const enemies = this.enemies
+        const distance = (enemy: Enemy) => Hex.distance(enemy.cell.hex, this.playerCell.hex)
+        const farthestFirst = enemies.slice().sort((a, b) => distance(b) - distance(a) || enemies.indexOf(a) - enemies.indexOf(b))
+        // Keeps the farthest enemies, in the order they were placed
+        const keep = (count: number) => this.enemies = enemies.filter(enemy => farthestFirst.indexOf(enemy) < count)
+
+        // The whole lot only counts as lost once the bigger search agrees
+        let kept = 0
+        let lost = enemies.length + 1
+        while (lost - kept > 1) {
+            const count = Math.floor((kept + lost) / 2)
+            keep(count)
+            if (new Solver(this, FALLBACK_BUDGET).solve().solvable === false)
+                lost = count
+            else
+                kept = count
+        }
+        keep(kept)
+    }
+
+    generateBoard(rng: Random) {
+        const spec = this.floorSpec
+        this.cells.forEach(cell => {
+            cell.terrain = TERRAIN_TYPES.empty
+            cell.expiresIn = undefined
+            cell.remembered = undefined
+        })
+        this.barrierEnergy = spec.barriers.energy
+        this.pickups = []
+        this.enemies = []
+
+        for (let attempt = 0; attempt < MAX_LAYOUT_ATTEMPTS; attempt++) {
+            this.cells.forEach(cell => cell.terrain = TERRAIN_TYPES.empty)
+            pillarHexes(spec.pillars, rng, this.boardHexes, this.floor).forEach(hex => {
+                const cell = this.hexGrid.get(hex)
+                if (cell) cell.terrain = TERRAIN_TYPES.pillar
+            })
+
+            this.playerCell = this.placeCell(spec.player, rng, this.cells.filter(cell => cell.isPathable))
+            // A random exit goes at least the board's radius away, so it can't spawn next to the player,
+            // unless the pillars leave nowhere that far
+            const otherCells = this.cells.filter(cell => cell.isPathable && cell !== this.playerCell)
+            const farCells = otherCells.filter(cell => Hex.distance(cell.hex, this.playerCell.hex) >= this.radius)
+            this.exitCell = this.placeCell(spec.exit, rng, farCells.length ? farCells : otherCells)
+            this.playerCell.terrain = TERRAIN_TYPES.empty
+            this.exitCell.terrain = TERRAIN_TYPES.empty
+            if (this.pathBetween(this.playerCell, this.exitCell).length) break
+        }
+
+        // Every layout drawn walled the exit off, so clear a straight way through the last one
+        if (!this.pathBetween(this.playerCell, this.exitCell).length) {
+            Hex.lineBetween(this.playerCell.hex, this.exitCell.hex).forEach(hex => {
+                const cell = this.hexGrid.get(hex)
+                if (cell) cell.terrain = TERRAIN_TYPES.empty
+            })
+        }
+
+        const playerNeighbors = this.playerCell.neighbors
+        let spawnableCells = this.cells.filter(cell => cell.isEmpty && cell !== this.exitCell && playerNeighbors.indexOf(cell) === -1)
+        spawnableCells = rng.shuffle(spawnableCells)
+
+        ITEM_KINDS.forEach(kind => {
+            for (let i = 0; i < (spec.pickups[kind] || 0); i++) {
+                const cell = spawnableCells.pop()
+                if (cell !== undefined)
+                    this.pickups.push({ cell: cell, kind: kind })
+            }
+        })
+
+        const enemyTypes = pickEnemyTypes(spec, rng)
+        for (let i = 0; i < this.numEnemies; i++) {
+            const cell = spawnableCells.pop()
+            if (cell !== undefined)
+                this.enemies.push(new Enemy(this, cell, enemyTypes[i]))
+        }
+    }
+
+    // The cell a spec placement refers to: a fixed hex, one picked out by a keyword, or a random one of the candidates
+    placeCell(placement: string, rng: Random, candidates: Cell[]): Cell {
+        const hex = PLACEMENT_KEYWORDS.indexOf(placement) !== -1 ? placementHex(this.boardHexes, placement) : placement !== 'random' && Hex.fromKey(placement)
+        const fixed = hex && this.hexGrid.get(hex)
+        if (fixed) return fixed
+        if (!candidates.length)
+            throw new Error(`No open cell left on floor ${this.floor} to place "${placement}"`)
+        return rng.sample(candidates)
+    }
+
+    @action.bound nextFloor() {
+        if (this.state == 'success') {
+            this.completedFloors.push(this.floorStats)
+            this.floor += 1
+            this.setupBoard()
+        } else {
+            this.resetGame()
+        }
+    }
+
+    serialize(): SavedGame {
+        const expiries: { [key: string]: number } = {}
+        this.cells.forEach(cell => {
+            if (cell.expiresIn !== undefined) expiries[cell.hex.key] = cell.expiresIn
+        })
+
+        return {
+            version: SAVE_VERSION,
+            campaign: this.campaign.id,
+            mode: this.mode,
+            dailyDate: this.dailyDate,
+            seed: this.seed,
+            floor: this.floor,
+            shape: this.shape,
+            inventory: this.inventory,
+            barrierEnergy: this.barrierEnergy,
+            hintsUsed: this.hintsUsed,
+            stats: { startedAt: this.startedAt, endedAt: this.endedAt, completed: this.completedFloors.slice(), current: this.floorStats },
+            state: this.state,
+            terrain: this.exportTerrain(),
+            expiries: expiries,
+            remembered: this.hasFog ? this.exportRemembered() : undefined,
+            player: this.playerCell.hex.key,
+            exit: this.exitCell.hex.key,
+            pickups: this.pickups.map(pickup => ({ hex: pickup.cell.hex.key, kind: pickup.kind })),
+            enemies: this.enemies.map(enemy => ({ hex: enemy.cell.hex.key, kind: enemy.type.kind, isAwake: enemy.isAwake, isStunned: enemy.isStunned }))
+        }
+    }
+
+    @action.bound load(data: SavedGame) {
+        this.mode = data.mode || 'free'
+        this.dailyDate = data.dailyDate
+        this.seed = data.seed
+        this.floor = Math.max(1, Math.min(this.campaign.floors.length, data.floor))
+        // Saves from before board shapes only have a radius, and older ones not even that
+        this.shape = data.shape || (data.radius !== undefined ? { type: 'hexagon', radius: data.radius } : this.floorSpec.shape)
+        this.buildGrid()
+
+        const cellsByKey: Map<string, Cell> = new Map()
+        this.cells.forEach(cell => cellsByKey.set(cell.hex.key, cell))
+
+        // Saves from before other items only count teleports
+        this.inventory = Object.assign(emptyInventory(), data.inventory || { teleport: data.numTeleports || 0 })
+        this.hintsUsed = data.hintsUsed || 0
+        // Saves from before stats were kept count from here
+        const stats = data.stats || { startedAt: Date.now(), endedAt: undefined, completed: [], current: emptyFloorStats(this.floor) }
+        this.startedAt = stats.startedAt
+        this.endedAt = stats.endedAt
+        this.completedFloors = stats.completed
+        this.floorStats = stats.current
+        this.state = data.state
+        this.barrierEnergy = data.barrierEnergy
+        this.cells.forEach(cell => {
+            cell.terrain = TERRAIN_TYPES[data.terrain[cell.hex.key] || 'empty']
+            cell.expiresIn = data.expiries && data.expiries[cell.hex.key]
+            cell.remembered = data.remembered && TERRAIN_TYPES[data.remembered[cell.hex.key]]
+        })
+        this.playerCell = cellsByKey.get(data.player) as Cell
+        this.exitCell = cellsByKey.get(data.exit) as Cell
+        const pickups = data.pickups || (data.crystals || []).map(key => ({ hex: key, kind: 'teleport' as ItemKind }))
+        this.pickups = pickups.map(pickup => ({ cell: cellsByKey.get(pickup.hex) as Cell, kind: pickup.kind })).filter(pickup => pickup.cell !== undefined)
+        this.enemies = data.enemies.map(enemy => new Enemy(this, cellsByKey.get(enemy.hex) as Cell, ENEMY_TYPES[enemy.kind], enemy.isAwake, !!enemy.isStunned))
+        this.history.clear()
+        this.reveal()
+
+        // Saves from before replays were recorded pick up from here
+        this.replay = data.replay || { version: REPLAY_VERSION, campaign: this.campaign.id, seed: this.seed, floors: [] }
+        if (!data.replay) this.recordFloorStart()
+    }
+
+    // Kind of every cell that isn't empty, by Hex.key
+    exportTerrain(): { [key: string]: TerrainKind } {
+        const terrain: { [key: string]: TerrainKind } = {}
+        this.cells.forEach(cell => {
+            if (cell.terrain !== TERRAIN_TYPES.empty)
+                terrain[cell.hex.key] = cell.terrain.kind
+        })
+        return terrain
+    }
+
+    // Kind of every cell the player remembers seeing in fog, by Hex.key
+    exportRemembered(): { [key: string]: TerrainKind } {
+        const remembered: { [key: string]: TerrainKind } = {}
+        this.cells.forEach(cell => {
+            if (cell.remembered) remembered[cell.hex.key] = cell.remembered.kind
+        })
+        return remembered
+    }
+
+    exportBoard(): BoardLayout {
+        return {
+            shape: this.shape,
+            terrain: this.exportTerrain(),
+            player: this.playerCell.hex.key,
+            exit: this.exitCell.hex.key,
+            pickups: this.pickups.map(pickup => ({ hex: pickup.cell.hex.key, kind: pickup.kind })),
+            enemies: this.enemies.map(enemy => ({ hex: enemy.cell.hex.key, kind: enemy.type.kind }))
+        }
+    }
+
+    // Start a new floor in the replay from the board as it stands
+    recordFloorStart() {
+        if (this.isRecording)
+            this.replay.floors.push({ start: this.serialize(), entries: [] })
+    }
+
+    // Count a turn towards the floor's stats, once it has played out
+    recordStats(changes: Partial<FloorStats> = {}) {
+        if (!this.isRecording) return
+
+        const stats = this.floorStats
+        this.floorStats = Object.assign({}, stats, {
+            turns: stats.turns + 1,
+            barriersPlaced: stats.barriersPlaced + (changes.barriersPlaced || 0),
+            cellsWalled: stats.cellsWalled + (changes.cellsWalled || 0),
+            teleportsUsed: stats.teleportsUsed + (changes.teleportsUsed || 0),
+            enemiesDefeated: this.enemies.filter(enemy => enemy.isDefeated).length
+        })
+        if (this.state === 'failure' || this.state === 'stuck' || this.state === 'final')
+            this.endedAt = Date.now()
+    }
+
+    summarizeRun(): RunSummary {
+        const finished = this.state === 'final'
+        const floors = this.completedFloors.concat([this.floorStats])
+        const floorsCleared = this.completedFloors.length + (finished ? 1 : 0)
+        // An ending that was undone doesn't stop the clock
+        const endedAt = this.endedAt !== undefined && this.state !== 'game' ? this.endedAt : Date.now()
+        return {
+            campaign: this.campaign.id,
+            mode: this.mode,
+            dailyDate: this.dailyDate,
+            seed: this.seed,
+            floors: floors,
+            floorsCleared: floorsCleared,
+            finished: finished,
+            hintsUsed: this.hintsUsed,
+            duration: endedAt - this.startedAt,
+            score: scoreRun(floors, floorsCleared, finished, this.hintsUsed),
+            endedAt: endedAt
+        }
+    }
+
+    recordEntry(entry: ReplayEntry) {
+        const floor = this.replay.floors[this.replay.floors.length-1]
+        if (this.isRecording && floor)
+            floor.entries.push(encodeEntry(entry))
+    }
+
+    // Replace the current floor with a hand-made board, ready to play from its first turn
+    @action.bound loadBoard(layout: BoardLayout) {
+        this.shape = layout.shape
+        this.buildGrid()
+
+        const cellAt = (key: string) => this.hexGrid.get(Hex.fromKey(key)) as Cell
+        this.cells.forEach(cell => {
+            cell.terrain = TERRAIN_TYPES[layout.terrain[cell.hex.key] || 'empty']
+            cell.expiresIn = undefined
+            cell.remembered = undefined
+        })
+        this.barrierEnergy = this.floorSpec.barriers.energy
+        this.playerCell = cellAt(layout.player)
+        this.exitCell = cellAt(layout.exit)
+        this.pickups = layout.pickups.map(pickup => ({ cell: cellAt(pickup.hex), kind: pickup.kind }))
+        this.enemies = layout.enemies.map(enemy => new Enemy(this, cellAt(enemy.hex), ENEMY_TYPES[enemy.kind]))
+        this.history.clear()
+        this.state = 'game'
+        this.reveal()
+    }
+
+    // Paint one cell in the editor. Whatever was on the cell is cleared first; the player and exit
+    // can be moved but not painted over.
+    @action.bound editCell(hex: Hex, tool: EditTool): boolean {
+        const cell = this.hexGrid.get(hex)
+        if (!cell) return false
+        if ((cell === this.playerCell && tool !== 'player') || (cell === this.exitCell && tool !== 'exit'))
+            return false
+
+        cell.terrain = TERRAIN_TYPES[tool] || TERRAIN_TYPES.empty
+        cell.expiresIn = undefined
+        this.pickups = this.pickups.filter(pickup => pickup.cell !== cell)
+        this.enemies = this.enemies.filter(enemy => enemy.cell !== cell)
+
+        if (tool === 'player')
+            this.playerCell = cell
+        else if (tool === 'exit')
+            this.exitCell = cell
+        else if (ITEM_KINDS.indexOf(tool as ItemKind) !== -1)
+            this.pickups.push({ cell: cell, kind: tool as ItemKind })
+        else if (ENEMY_TYPES[tool])
+            this.enemies.push(new Enemy(this, cell, ENEMY_TYPES[tool]))
+
+        this.history.clear()
+        this.state = 'game'
+        return true
+    }
+
+    // Whether one cell can be seen from another: always without fog, otherwise when it's within sight and
+    // nothing on the line between them blocks the view. The cells at either end don't block it themselves.
+    canSee(from: Cell, to: Cell): boolean {
+        const {sight} = this.floorSpec
+        if (sight === undefined) return true
+        if (Hex.distance(from.hex, to.hex) > sight) return false
+
+        return Hex.lineBetween(from.hex, to.hex).slice(1, -1).every(hex => {
+            const cell = this.hexGrid.get(hex)
+            return cell !== undefined && !cell.terrain.blocksSight
+        })
+    }
+
+    // Commit whatever the player can see now to memory, for drawing it dimmed once it's out of view
+    reveal() {
+        const {sight} = this.floorSpec
+        if (sight === undefined) return
+
+        // circle stops short of its radius, and the player sees as far as `sight` itself
+        this.playerCell.circle(sight + 1).forEach(cell => {
+            if (cell.remembered !== cell.terrain && this.canSee(this.playerCell, cell))
+                cell.remembered = cell.terrain
+        })
+    }
+
+    // Distances to the player for enemies that phase through this many barriers. Enemies all chase the
+    // player, so they share one field, rebuilt only once the player moves or the terrain changes.
+    distanceField(phase: number = 0): DistanceField {
+        const {hexGrid, playerCell, terrainVersion} = this
+        const field = this.distanceFields[phase]
+        if (field && field.grid === hexGrid && field.goal === playerCell && field.terrainVersion === terrainVersion)
+            return field
+
+        return this.distanceFields[phase] = new DistanceField(hexGrid, playerCell, phase, terrainVersion)
+    }
+
+    // Shortest route between any two cells, for when neither is the player
+    pathBetween(start: Cell, goal: Cell): Cell[] {
+        const frontier = new PriorityQueue<Cell>()
+        frontier.push(start, 0)
+        const cameFrom: Map<Cell, Cell|undefined> = new Map()
+        const costSoFar: Map<Cell, number> = new Map()
+        cameFrom.set(start, undefined)
+        costSoFar.set(start, 0)
+
+        while (frontier.length > 0) {
+            const current = frontier.pop()
+
+            if (current === goal)
+                break;
+
+            current.neighbors.forEach(nextCell => {
+                if (nextCell !== start && nextCell !== goal && !nextCell.isPathable) return
+
+                const newCost = (costSoFar.get(current)||0) + 1
+                const prevCost = costSoFar.get(nextCell)
+                if (prevCost === undefined || newCost < prevCost) {
+                    costSoFar.set(nextCell, newCost)
+                    frontier.push(nextCell, newCost)
+                    cameFrom.set(nextCell, current)
+                }
+            })
+        }
+
+        if (!cameFrom.has(goal))
+            return []
+        else {
+            const path = []
+            let current = goal
+            while (current != start) {
+                path.push(current)
+                current = cameFrom.get(current) as Cell
+            }
+            path.reverse()
+            return path
+        }
+    }
+
+    // Cells a barrier from start towards end would cover; the wall stops at the first blocked cell
+    barrierLine(start: Cell, end: Cell): Cell[] {
+        return start.lineTo(end).filter(cell => cell.isEmpty)
+    }
+
+    // Energy a barrier from start towards end would use
+    barrierCost(start: Cell, end: Cell): number {
+        return this.barrierLine(start, end).length * this.floorSpec.barriers.cost
+    }
+
+    canPlaceBarrier(start: Cell, end: Cell): boolean {
+        const cost = this.barrierCost(start, end)
+        return this.barrierLine(start, end).length > 0 && (this.barrierEnergy === undefined || cost <= this.barrierEnergy)
+    }
+
+    @action.bound placeBarrier(start: Cell, end: Cell) {
+        const {lifetime} = this.floorSpec.barriers
+        if (this.barrierEnergy !== undefined)
+            this.barrierEnergy -= this.barrierCost(start, end)
+
+        this.barrierLine(start, end).forEach(cell => {
+            cell.terrain = TERRAIN_TYPES.barrier
+            cell.expiresIn = lifetime
+        })
+    }
+
+    // Count down decaying barriers, crumbling the ones that run out
+    decayBarriers() {
+        this.cells.forEach(cell => {
+            if (cell.expiresIn === undefined) return
+            cell.expiresIn -= 1
+            if (cell.expiresIn <= 0) {
+                cell.terrain = TERRAIN_TYPES.empty
+                cell.expiresIn = undefined
+            }
+        })
+    }
+
+    // Where move(target) would put the player: one step along the path, or straight there when it's the
+    // exit or a pickup and nothing can reach us
+    moveDestination(target: Hex): Cell|undefined {
+        const cell = this.hexGrid.get(target)
+        if (!cell) return undefined
+
+        const path = this.distanceField().pathTo(cell)
+        if (!path.length) return undefined
+
+        if (this.isSafe && !this.isEndgame && (this.pickups.some(pickup => pickup.cell === cell) || cell === this.exitCell)) {
+            // Fast move when safe
+            return cell
+        } else if (path[0].isEmpty) {
+            return path[0]
+        } else {
+            return undefined
+        }
+    }
+
+    @action.bound move(target: Hex): boolean {
+        const destination = this.moveDestination(target)
+        if (this.state !== 'game' || !destination) return false
+
+        this.history.record()
+        this.recordEntry({ type: 'move', hex: target })
+        this.playerCell = destination
+        this.endTurn()
+        this.recordStats()
+        return true
+    }
+
+    // Use an ability on the cells it asks for, in place of a move. What each one does is up to ABILITIES.
+    @action.bound useAbility(kind: AbilityKind, targets: Hex[]): boolean {
+        const ability = ABILITIES[kind]
+        const cells = targets.map(hex => this.hexGrid.get(hex))
+        if (this.state !== 'game' || !ability || cells.length !== ability.targets || cells.some(cell => !cell) || !ability.canUse(this, cells))
+            return false
+
+        this.history.record()
+        this.recordEntry({ type: 'ability', ability: kind, targets: targets })
+        const stats = ability.use(this, cells)
+        this.endTurn()
+        this.recordStats(stats)
+        return true
+    }
+
+    @action.bound teleport(target: Hex): boolean {
+        return this.useAbility('teleport', [target])
+    }
+
+    @action.bound barrier(from: Hex, to: Hex): boolean {
+        return this.useAbility('barrier', [from, to])
+    }
+
+    // Work out a recommended action for the current position; counts against the run's hints
+    @action.bound hint(): Command|undefined {
+        if (this.state !== 'game' || this.isEndgame) return undefined
+
+        const command = new Solver(this, HINT_BUDGET).hint(HINT_LOOKAHEAD)
+        if (command) {
+            this.hintsUsed += 1
+            this.floorStats = Object.assign({}, this.floorStats, { hintsUsed: (this.floorStats.hintsUsed || 0) + 1 })
+        }
+        return command
+    }
+
+    execute(command: Command): boolean {
+        if (command.type === 'move')
+            return this.move(command.hex)
+        else
+            return this.useAbility(command.ability, command.targets)
+    }
+
+    endTurn() {
+        this.reveal()
+        const pickup = this.pickups.find(pickup => pickup.cell === this.playerCell)
+        if (pickup) {
+            this.inventory = Object.assign({}, this.inventory, { [pickup.kind]: this.inventory[pickup.kind] + 1 })
+            this.pickups = this.pickups.filter(other => other !== pickup)
+        }
+
+        if (this.playerCell === this.exitCell) {
+            this.state = this.isEndgame || this.isLastFloor ? 'final' : 'success'
+            return
+        }
+
+        TACTICS[this.floorSpec.tactics].moveEnemies(this)
+        if (this.enemies.some(enemy => enemy.cell === this.playerCell)) {
+            this.state = 'failure'
+            return
+        }
+        // A stun only lasts the one turn
+        this.enemies.forEach(enemy => enemy.isStunned = false)
+
+        this.decayBarriers()
+        this.reveal()
+
+        // A wall that will crumble, or that the player can teleport past or dissolve, doesn't trap them for good
+        const isDecaying = this.cells.some(cell => cell.expiresIn !== undefined)
+        if (this.inventory.teleport === 0 && this.inventory.dissolve === 0 && !isDecaying && !this.distanceField().reaches(this.exitCell)) {
+            this.state = 'stuck'
+            return
+        }
+    }
+}
@@ -0,0 +1,160 @@
+export default class Hex {
+    static directions = [
+        new Hex(+1, -1, 0), new Hex(+1, 0, -1), new Hex(0, +1, -1),
+        new Hex(-1, +1, 0), new Hex(-1, 0, +1), new Hex(0, -1, +1)
+    ]
+
+    static zero = new Hex(0, 0, 0)
+
+    static ring(center: Hex, radius: number): Hex[] {
+        if (radius == 0) return [center]
+
+        const results: Hex[] = []
+        let hex = center.add(Hex.directions[4].scale(radius))
+        for (let i = 0; i < 6; i++) {
+            for (let j = 0; j < radius; j++) {
+                results.push(hex)
+                hex = hex.neighbor(i)
+            }
+        }
+        return results
+    }
+
+    static rings(center: Hex, startRadius: number, endRadius: number) {
+        const results = []
+        for (let i = startRadius; i < endRadius; i++) {
+            results.push(...Hex.ring(center, i))
+        }
+        return results
+    }
+
+    static fromKey(key: string): Hex {
+        const [q, r, s] = key.split(",").map(s => parseInt(s))
+        return new Hex(q, r, s)
+    }
+
+    static distance(a: Hex, b: Hex) {
+        return (Math.abs(a.q-b.q) + Math.abs(a.r-b.r) + Math.abs(a.s-b.s))/2
+    }
+
+    // Nearest hex to fractional cube coordinates
+    static round(x: number, y: number, z: number): Hex {
+        let rx = Math.round(x)
+        let ry = Math.round(y)
+        let rz = Math.round(z)
+
+        var x_diff = Math.abs(rx - x)
+        var y_diff = Math.abs(ry - y)
+        var z_diff = Math.abs(rz - z)
+
+        if (x_diff > y_diff && x_diff > z_diff)
+            rx = -ry-rz
+        else if (y_diff > z_diff)
+            ry = -rx-rz
+        else
+            rz = -rx-ry
+
+        return new Hex(rx, ry, rz)
+    }
+
+    static lineBetween(a: Hex, b: Hex) {
+        function lerp(a: number, b: number, t: number) {
+            return a + (b - a) * t
+        }
+
+        function cubeLerp(a: Hex, b: Hex, t: number) {
+            const x = lerp(a.q, b.q, t)
+            const y = lerp(a.r, b.r, t)
+            const z = lerp(a.s, b.s, t)
+
+            return Hex.round(x, y, z)
+        }
+
+        const distance = Hex.distance(a, b)
+        const line = []
+        for (let i = 0; i < distance; i++) {
+            line.push(cubeLerp(a, b, 1/distance * i))
+        }
+        line.push(b)
+
+        return line
+    }
+
+    readonly q: number
+    readonly r: number
+    readonly s: number
+
+    constructor(q: number, r: number, s: number) {
+        console.assert(q + r + s == 0)
+        this.q = q
+        this.r = r
+        this.s = s
+    }
+
+    add(b: Hex) {
+        return new Hex(this.q+b.q, this.r+b.r, this.s+b.s)
+    }
+
+    scale(amount: number) {
+        return new Hex(this.q*amount, this.r*amount, this.s*amount)
+    }
+
+    neighbor(index: number) {
+        return this.add(Hex.directions[index])
+    }
+
+    equals(b: Hex) {
+        return this.key === b.key
+    }
+
+    get neighbors() {
+        return Hex.directions.map(hex => this.add(hex))
+    }
+
+    get key() {
+        return `${this.q},${this.r},${this.s}`        
+    }
+}
+
+// Values for every hex within `radius` of the center, kept in an array indexed by axial coordinates
+// so lookups are arithmetic instead of string keys
+export class HexGrid<T> {
+    readonly radius: number
+    readonly width: number
+    values: (T|undefined)[]
+    hexes: Hex[] = []
+
+    constructor(radius: number) {
+        this.radius = radius
+        this.width = radius*2 + 1
+        this.values = new Array(this.width * this.width)
+    }
+
+    get size(): number {
+        return this.hexes.length
+    }
+
+    // Position of a hex in `values`, or -1 when it's outside the grid's bounds
+    index(hex: Hex): number {
+        const {radius} = this
+        if (Math.abs(hex.q) > radius || Math.abs(hex.r) > radius) return -1
+        return (hex.r + radius) * this.width + hex.q + radius
+    }
+
+    get(hex: Hex): T {
+        return this.values[this.index(hex)] as T
+    }
+
+    set(hex: Hex, value: T) {
+        const index = this.index(hex)
+        if (index === -1)
+            throw new Error(`${hex.key} is outside a grid of radius ${this.radius}`)
+        if (this.values[index] === undefined)
+            this.hexes.push(hex)
+        this.values[index] = value
+    }
+
+    forEach(callback: (hex: Hex) => void) {
+        return this.hexes.forEach(hex => callback(hex))
+    }
+}
@@ -0,0 +1,199 @@
+import Hex from './Hex'
+import Random from './Random'
+
+// Ways of laying out a floor's pillars, from the original rings to whole cave systems
+export type LayoutKind = 'rings'|'rocks'|'river'|'arena'|'maze'|'caves'
+
+export interface Layout {
+    kind: LayoutKind
+    description: string
+    // First floor a random pick can land on this layout, so the trickier ones come later in a run
+    fromFloor: number
+    // Pillars for a board of any shape. Nothing here needs to keep a way open between the player
+    // and the exit; Game.generateBoard checks for that once they're placed.
+    generate(board: Hex[], rng: Random): Hex[]
+}
+
+// The pillar layout every floor used to have: a random band of rings around the center
+export function ringBand(rng: Random, inner: number[], outer: number[]): Hex[] {
+    return Hex.rings(Hex.zero, rng.sample(inner), rng.sample(outer))
+}
+
+// The hex turned a sixth of the way round the center, `turns` times
+function rotate(hex: Hex, turns: number): Hex {
+    let result = hex
+    for (let i = 0; i < turns; i++)
+        result = new Hex(-result.r, -result.s, -result.q)
+    return result
+}
+
+function onBoard(board: Hex[]): (hex: Hex) => boolean {
+    const keys = new Set(board.map(hex => hex.key))
+    return hex => keys.has(hex.key)
+}
+
+// Small clumps of one to three pillars dropped anywhere
+function rocks(board: Hex[], rng: Random): Hex[] {
+    const isOnBoard = onBoard(board)
+    const pillars: Hex[] = []
+    const count = Math.round(board.length / 14)
+    for (let i = 0; i < count; i++) {
+        let hex = rng.sample(board)
+        const size = rng.int(1, 4)
+        for (let j = 0; j < size && isOnBoard(hex); j++) {
+            pillars.push(hex)
+            hex = hex.neighbor(rng.int(0, 6))
+        }
+    }
+    return pillars
+}
+
+// A wall meandering right across the board through the middle, with a gap or two to cross at
+function river(board: Hex[], rng: Random): Hex[] {
+    const isOnBoard = onBoard(board)
+    const heading = rng.int(0, 3)
+    const start = Hex.zero.neighbor(rng.int(0, 6)).scale(rng.int(0, 2))
+    const course: Hex[] = isOnBoard(start) ? [start] : []
+
+    // Flow out both ways from the start, drifting to either side of the heading but never turning back
+    const directions = [heading, heading + 3]
+    directions.forEach(direction => {
+        let hex = start
+        while (true) {
+            hex = hex.neighbor((direction + rng.sample([-1, 0, 0, 1]) + 6) % 6)
+            if (!isOnBoard(hex)) break
+            course.push(hex)
+        }
+    })
+
+    const crossings = rng.int(1, 3)
+    for (let i = 0; i < crossings && course.length > 2; i++)
+        course.splice(rng.int(1, course.length-1), 1)
+    return course
+}
+
+// A few clumps repeated around the center two, three or six times, so every side plays the same
+function arena(board: Hex[], rng: Random): Hex[] {
+    const isOnBoard = onBoard(board)
+    const symmetry = rng.sample([2, 3, 6])
+    const clumps = rng.int(2, 5)
+    const pillars: Hex[] = []
+    for (let i = 0; i < clumps; i++) {
+        const hex = rng.sample(board)
+        const clump = [hex, hex.neighbor(rng.int(0, 6))]
+        for (let turn = 0; turn < 6; turn += 6 / symmetry)
+            clump.forEach(hex => pillars.push(rotate(hex, turn)))
+    }
+    return pillars.filter(isOnBoard)
+}
+
+// Corridors one cell wide. Rooms sit on every other cell along each axis and a randomized depth first
+// search joins them into a maze, which then has walls knocked through so there's more than one way round.
+function maze(board: Hex[], rng: Random): Hex[] {
+    const isOnBoard = onBoard(board)
+    const isRoom = (hex: Hex) => hex.q % 2 === 0 && hex.r % 2 === 0
+    const rooms = board.filter(isRoom)
+    const open = new Set(rooms.map(hex => hex.key))
+    if (!rooms.length) return []
+
+    const first = rng.sample(rooms)
+    const visited = new Set([first.key])
+    const stack = [first]
+    while (stack.length) {
+        const room = stack[stack.length-1]
+        const directions = rng.shuffle([0, 1, 2, 3, 4, 5]).filter(i => {
+            const next = room.add(Hex.directions[i].scale(2))
+            return isOnBoard(next) && isOnBoard(room.neighbor(i)) && !visited.has(next.key)
+        })
+        if (!directions.length) {
+            stack.pop()
+            continue
+        }
+        const next = room.add(Hex.directions[directions[0]].scale(2))
+        open.add(room.neighbor(directions[0]).key)
+        visited.add(next.key)
+        stack.push(next)
+    }
+
+    const walls = board.filter(hex => !open.has(hex.key))
+    return walls.filter(hex => rng.next() >= 0.25)
+}
+
+// Open caverns grown by a cellular automaton from random noise. The edge of the board counts as
+// rock, and any pocket cut off from the largest cavern is filled in.
+function caves(board: Hex[], rng: Random): Hex[] {
+    const isOnBoard = onBoard(board)
+    let rock = new Set(board.filter(hex => rng.next() < 0.4).map(hex => hex.key))
+    const isRock = (hex: Hex) => !isOnBoard(hex) || rock.has(hex.key)
+
+    for (let step = 0; step < 3; step++) {
+        const next: Set<string> = new Set()
+        board.forEach(hex => {
+            const walls = hex.neighbors.filter(isRock).length
+            if (walls >= 4 || (walls === 3 && rock.has(hex.key)))
+                next.add(hex.key)
+        })
+        rock = next
+    }
+
+    // Flood fill each cavern, keeping only the biggest
+    const seen: Set<string> = new Set()
+    let largest: Hex[] = []
+    board.filter(hex => !rock.has(hex.key)).forEach(start => {
+        if (seen.has(start.key)) return
+        const cavern = [start]
+        seen.add(start.key)
+        for (let i = 0; i < cavern.length; i++) {
+            cavern[i].neighbors.forEach(hex => {
+                if (isOnBoard(hex) && !rock.has(hex.key) && !seen.has(hex.key)) {
+                    seen.add(hex.key)
+                    cavern.push(hex)
+                }
+            })
+        }
+        if (cavern.length > largest.length) largest = cavern
+    })
+
+    const kept = new Set(largest.map(hex => hex.key))
+    return board.filter(hex => !kept.has(hex.key))
+}
+
+export const LAYOUTS: { [kind: string]: Layout } = {
+    rings: {
+        kind: 'rings', fromFloor: 1,
+        description: "a band of rings around the center",
+        generate: (board, rng) => ringBand(rng, [0, 1], [2, 3])
+    },
+    rocks: {
+        kind: 'rocks', fromFloor: 1,
+        description: "small clumps of rock scattered about",
+        generate: rocks
+    },
+    river: {
+        kind: 'river', fromFloor: 3,
+        description: "a wall winding across the board, crossed at a gap or two",
+        generate: river
+    },
+    arena: {
+        kind: 'arena', fromFloor: 4,
+        description: "clumps set out symmetrically around the center",
+        generate: arena
+    },
+    maze: {
+        kind: 'maze', fromFloor: 6,
+        description: "narrow corridors with walls knocked through",
+        generate: maze
+    },
+    caves: {
+        kind: 'caves', fromFloor: 8,
+        description: "winding caverns",
+        generate: caves
+    }
+}
+
+export const LAYOUT_KINDS = Object.keys(LAYOUTS) as LayoutKind[]
+
+// Layouts a random pick can choose from on a floor: the ones listed, or else every one unlocked by then
+export function layoutsFor(floor: number, layouts?: LayoutKind[]): LayoutKind[] {
+    return layouts || LAYOUT_KINDS.filter(kind => LAYOUTS[kind].fromFloor <= floor)
+}
@@ -0,0 +1,21 @@
+declare const require: any
+const TinyQueue = require('tinyqueue')
+
+export default class PriorityQueue<T> {
+    queue: any
+    constructor() {
+        this.queue = new TinyQueue([], (a: any, b: any) => a.priority - b.priority)
+    }
+
+    push(value: T, priority: number) {
+        this.queue.push({ value, priority })
+    }
+
+    pop(): T {
+        return this.queue.pop().value
+    }
+
+    get length(): number {
+        return this.queue.length
+    }
+}
@@ -0,0 +1,54 @@
+// Small seedable PRNG (mulberry32) so that a floor can be regenerated exactly from its seed
+export default class Random {
+    static randomSeed(): number {
+        return Math.floor(Math.random() * 0x7fffffff)
+    }
+
+    // Mix a run seed with a floor number so each floor gets its own independent stream
+    static floorSeed(seed: number, floor: number): number {
+        let h = Math.imul(seed ^ Math.imul(floor, 0x9e3779b1), 0x85ebca6b)
+        h ^= h >>> 13
+        return (Math.imul(h, 0xc2b2ae35) ^ (h >>> 16)) >>> 0
+    }
+
+    // Hash a date like "2024-05-01" (FNV-1a), so every player gets the same seed on the same day
+    static dailySeed(date: string): number {
+        let h = 0x811c9dc5
+        for (let i = 0; i < date.length; i++)
+            h = Math.imul(h ^ date.charCodeAt(i), 0x01000193)
+        return (h >>> 0) & 0x7fffffff
+    }
+
+    state: number
+    constructor(seed: number) {
+        this.state = seed >>> 0
+    }
+
+    // Float in [0, 1)
+    next(): number {
+        let t = this.state = (this.state + 0x6d2b79f5) >>> 0
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+
+    // Integer in [min, max)
+    int(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min))
+    }
+
+    sample<T>(values: T[]): T {
+        return values[this.int(0, values.length)]
+    }
+
+    shuffle<T>(values: T[]): T[] {
+        const result = values.slice()
+        for (let i = result.length - 1; i > 0; i--) {
+            const j = this.int(0, i + 1)
+            const tmp = result[i]
+            result[i] = result[j]
+            result[j] = tmp
+        }
+        return result
+    }
+}
@@ -0,0 +1,118 @@
+import {observable, computed, action} from 'mobx'
+import Hex from './Hex'
+import Game, {Command} from './Game'
+import {SavedGame} from './SavedGame'
+import {Campaign} from './Campaign'
+import {ABILITIES, abilityByCode} from './Ability'
+
+export const REPLAY_VERSION = 1
+
+export interface ReplayFloor {
+    // The floor as it was dealt, before the first turn
+    start: SavedGame
+    // Commands in the order they were played, as written by encodeEntry
+    entries: string[]
+}
+
+// Everything needed to watch a run back: each floor's starting board plus what was played on it
+export interface Replay {
+    version: number
+    campaign: string
+    seed: number
+    floors: ReplayFloor[]
+}
+
+// Undo and redo are recorded too, so a replay shows exactly what the player saw
+export type ReplayEntry = Command | { type: 'undo' } | { type: 'redo' }
+
+// Compact text form of an entry: "m:q,r,s" for a move, the ability's code followed by its targets
+// (e.g. "t:q,r,s" or "b:q,r,s:q,r,s"), "u" or "r"
+export function encodeEntry(entry: ReplayEntry): string {
+    if (entry.type === 'move')
+        return `m:${entry.hex.key}`
+    else if (entry.type === 'ability')
+        return [ABILITIES[entry.ability].code].concat(entry.targets.map(hex => hex.key)).join(":")
+    else
+        return entry.type === 'undo' ? "u" : "r"
+}
+
+export function decodeEntry(text: string): ReplayEntry {
+    const [type, ...keys] = text.split(":")
+    const hexes = keys.map(key => Hex.fromKey(key))
+    const ability = abilityByCode(type)
+    if (type === 'm' && hexes.length === 1)
+        return { type: 'move', hex: hexes[0] }
+    else if (ability && hexes.length === ability.targets)
+        return { type: 'ability', ability: ability.kind, targets: hexes }
+    else if (type === 'u')
+        return { type: 'undo' }
+    else if (type === 'r')
+        return { type: 'redo' }
+    else
+        throw new Error(`Invalid replay entry "${text}"`)
+}
+
+// Check a replay loaded from JSON
+export function parseReplay(data: any): Replay {
+    if (!data || data.version !== REPLAY_VERSION || !Array.isArray(data.floors) || !data.floors.length)
+        throw new Error("Invalid replay: expected a version 1 replay with at least one floor")
+
+    const replay = data as Replay
+    replay.floors.forEach(floor => floor.entries.forEach(decodeEntry))
+    return replay
+}
+
+// Steps through a replay on its own game. Position 0 is the first floor as dealt, and every
+// entry after a floor's start is one more position.
+export class ReplayPlayer {
+    game: Game
+    replay: Replay
+    @observable position: number = 0
+
+    constructor(replay: Replay, campaign: Campaign) {
+        this.replay = replay
+        this.game = new Game({ campaign: campaign, saved: replay.floors[0].start })
+        this.game.isRecording = false
+        this.seek(0)
+    }
+
+    @computed get length(): number {
+        return this.replay.floors.reduce((total, floor) => total + floor.entries.length + 1, 0)
+    }
+
+    // Which floor of the replay a position falls on, and how many of its entries have been played
+    locate(position: number): [ReplayFloor, number] {
+        let remaining = position
+        for (let floor of this.replay.floors) {
+            if (remaining <= floor.entries.length)
+                return [floor, remaining]
+            remaining -= floor.entries.length + 1
+        }
+        const last = this.replay.floors[this.replay.floors.length-1]
+        return [last, last.entries.length]
+    }
+
+    @action.bound seek(position: number) {
+        this.position = Math.max(0, Math.min(this.length-1, position))
+        const [floor, played] = this.locate(this.position)
+
+        this.game.load(floor.start)
+        floor.entries.slice(0, played).forEach(text => {
+            const entry = decodeEntry(text)
+            if (entry.type === 'undo')
+                this.game.history.undo()
+            else if (entry.type === 'redo')
+                this.game.history.redo()
+            else
+                this.game.execute(entry)
+        })
+    }
+
+    @action.bound step(delta: number) {
+        this.seek(this.position + delta)
+    }
+
+    @computed get isAtEnd(): boolean {
+        return this.position >= this.length-1
+    }
+}
@@ -0,0 +1,55 @@
+import {GameMode} from './Game'
+
+export interface FloorStats {
+    floor: number
+    turns: number
+    barriersPlaced: number
+    cellsWalled: number
+    teleportsUsed: number
+    // Enemies with no way left to reach the player (Enemy.isDefeated) when the floor ended
+    enemiesDefeated: number
+    // Hints taken on the floor; missing from floors saved before it was counted
+    hintsUsed?: number
+}
+
+// How a run went, for the end screens and the leaderboard
+export interface RunSummary {
+    campaign: string
+    mode: GameMode
+    dailyDate?: string
+    seed: number
+    floors: FloorStats[]
+    floorsCleared: number
+    finished: boolean
+    hintsUsed: number
+    // Wall clock time from the first floor being dealt until the run ended, in milliseconds
+    duration: number
+    score: number
+    endedAt: number
+}
+
+export function emptyFloorStats(floor: number): FloorStats {
+    return { floor: floor, turns: 0, barriersPlaced: 0, cellsWalled: 0, teleportsUsed: 0, enemiesDefeated: 0, hintsUsed: 0 }
+}
+
+export function totalStats(floors: FloorStats[]): FloorStats {
+    const total = emptyFloorStats(floors.length)
+    floors.forEach(stats => {
+        total.turns += stats.turns
+        total.barriersPlaced += stats.barriersPlaced
+        total.cellsWalled += stats.cellsWalled
+        total.teleportsUsed += stats.teleportsUsed
+        total.enemiesDefeated += stats.enemiesDefeated
+        total.hintsUsed = (total.hintsUsed || 0) + (stats.hintsUsed || 0)
+    })
+    return total
+}
+
+// Clearing floors is what counts most. Walling enemies off is rewarded, while turns, wall cells and
+// hints taken to get there cost a little. Time isn't scored, so a replay always earns the same score.
+export function scoreRun(floors: FloorStats[], floorsCleared: number, finished: boolean, hintsUsed: number): number {
+    const total = totalStats(floors)
+    const score = floorsCleared * 1000 + (finished ? 3000 : 0) + total.enemiesDefeated * 50
+        - total.turns * 10 - total.cellsWalled * 2 - hintsUsed * 200
+    return Math.max(0, score)
+}
@@ -0,0 +1,83 @@
+import {GameState, GameMode} from './Game'
+import {EnemyKind} from './EnemyType'
+import {TerrainKind, TERRAIN_KINDS, TERRAIN_TYPES} from './TerrainType'
+import {Replay} from './Replay'
+import {FloorStats} from './RunStats'
+import {BoardShape} from './BoardShape'
+import {Inventory, ItemKind} from './Ability'
+
+export const SAVE_VERSION = 4
+
+// Serialized form of a run in progress. Hexes are referenced by Hex.key.
+export interface SavedGame {
+    version: number
+    // Campaign.id the run belongs to
+    campaign: string
+    // Free play when missing
+    mode?: GameMode
+    dailyDate?: string
+    seed: number
+    floor: number
+    // Missing from saves written before hand-made boards, which can differ from the floor's shape
+    shape?: BoardShape
+    // Written instead of a shape before boards could be other than hexagons
+    radius?: number
+    // Charges of each item held. Saves from before there were other items only have numTeleports.
+    inventory?: Inventory
+    numTeleports?: number
+    hintsUsed?: number
+    stats?: { startedAt: number, endedAt?: number, completed: FloorStats[], current: FloorStats }
+    state: GameState
+    // Cells missing from here are empty
+    terrain: { [key: string]: TerrainKind }
+    // Turns left on decaying barriers, by Hex.key
+    expiries?: { [key: string]: number }
+    // Terrain the player has seen on a fog floor, as they last saw it
+    remembered?: { [key: string]: TerrainKind }
+    // Missing when barriers are unlimited
+    barrierEnergy?: number
+    player: string
+    exit: string
+    pickups?: { hex: string, kind: ItemKind }[]
+    // Written instead of pickups when teleport crystals were the only kind
+    crystals?: string[]
+    enemies: { hex: string, kind: EnemyKind, isAwake: boolean, isStunned?: boolean }[]
+    // The run so far; Game.serialize leaves it out, since replays hold saves of their own
+    replay?: Replay
+}
+
+// Bring a save written by an older version up to the current format, or undefined if it can't be read
+export function upgradeSave(data: any): SavedGame|undefined {
+    if (!data || typeof data.version !== 'number') return undefined
+
+    if (data.version === 1) {
+        // Before enemy types, every enemy was a chaser and enemies were stored as bare hex keys
+        data = Object.assign({}, data, {
+            version: 2,
+            enemies: (data.enemies as string[]).map(hex => ({ hex: hex, kind: 'chaser', isAwake: true }))
+        })
+    }
+
+    if (data.version === 2) {
+        // Floors came from code rather than a campaign, with at most one crystal
+        data = Object.assign({}, data, {
+            version: 3,
+            campaign: 'default',
+            crystals: data.crystal !== undefined ? [data.crystal] : []
+        })
+        delete data.crystal
+    }
+
+    if (data.version === 3) {
+        // Terrain used to be stored as the color it was drawn with
+        const terrain: { [key: string]: TerrainKind } = {}
+        Object.keys(data.colors).forEach(key => {
+            const kind = TERRAIN_KINDS.find(kind => TERRAIN_TYPES[kind].color === data.colors[key])
+            if (kind && kind !== 'empty') terrain[key] = kind
+        })
+        data = Object.assign({}, data, { version: 4, terrain: terrain })
+        delete data.colors
+    }
+
+    return data.version === SAVE_VERSION ? data as SavedGame : undefined
+}
@@ -0,0 +1,311 @@
+import {action} from 'mobx'
+import PriorityQueue from './PriorityQueue'
+import Hex from './Hex'
+import Cell from './Cell'
+import Game, {Command} from './Game'
+import {TurnSnapshot} from './TurnHistory'
+import {ABILITIES, ITEM_KINDS} from './Ability'
+import {TELEPORT_RANGE} from './constants'
+
+export interface SolverOptions {
+    // Give up on lines that take longer than this many turns
+    maxTurns: number
+    // Upper bound on positions examined, so a hard board can't hang generation
+    maxNodes: number
+}
+
+export interface Solution {
+    // false when no win turned up among the candidate moves, which doesn't rule out one that isn't tried;
+    // undefined when the node budget ran out before the search could decide either way
+    solvable: boolean|undefined
+    turns?: number
+    commands?: Command[]
+    nodes: number
+}
+
+interface SearchNode {
+    snapshot: TurnSnapshot
+    commands: Command[]
+}
+
+// How many teleport destinations and how many enemies to wall off are considered from each position;
+// trying all of them would swamp the search
+const TELEPORT_CANDIDATES = 6
+const BARRIER_ENEMIES = 3
+
+// Searches the engine's own moves for a way to win the current floor.
+// Barrier lines are limited to straight walls across the next step of the nearest few enemies,
+// which covers how barriers are actually useful while keeping the branching manageable. Pushes and
+// stuns are tried where they apply; dissolving is left out, as going round is nearly always as good.
+export default class Solver {
+    game: Game
+    options: SolverOptions
+
+    constructor(game: Game, options: Partial<SolverOptions> = {}) {
+        this.game = game
+        this.options = {
+            maxTurns: options.maxTurns !== undefined ? options.maxTurns : 40,
+            maxNodes: options.maxNodes !== undefined ? options.maxNodes : 500
+        }
+    }
+
+    // Greedy best-first search towards the exit. Quick to find a win, but the line it finds may not be the shortest.
+    solve(): Solution {
+        return this.search((node, turns) => this.estimate(), true)
+    }
+
+    // Breadth-first search, so the first win found uses the fewest turns possible with the candidate moves.
+    // It doesn't try walking out, as that can take longer than a line still to be found.
+    minimumTurns(): Solution {
+        return this.search((node, turns) => turns, false)
+    }
+
+    // Recommend a single action: the first move of a winning line if one turns up, otherwise whichever
+    // candidate leaves us furthest along while still surviving the next few enemy turns
+    hint(lookahead: number = 3): Command|undefined {
+        const solution = this.solve()
+        if (solution.commands && solution.commands.length)
+            return solution.commands[0]
+
+        return this.withRestore(() => {
+            const {game} = this
+            const root = game.history.snapshot()
+
+            let best: Command|undefined
+            let bestScore = Infinity
+            for (let command of this.candidates()) {
+                game.history.restore(root)
+                if (!game.execute(command)) continue
+                if (game.state === 'success' || game.state === 'final') return command
+                if (game.state !== 'game') continue
+
+                const score = this.estimate() + (this.survives(lookahead-1) ? 0 : 1000)
+                if (score < bestScore) {
+                    best = command
+                    bestScore = score
+                }
+            }
+            return best
+        })
+    }
+
+    // Whether some sequence of plain steps keeps the player free for this many more turns
+    survives(turns: number): boolean {
+        const {game} = this
+        if (turns <= 0 || game.state !== 'game') return game.state !== 'failure' && game.state !== 'stuck'
+
+        const snapshot = game.history.snapshot()
+        const steps = game.playerCell.neighbors.filter(cell => cell.isEmpty).map(cell => cell.hex).concat([game.exitCell.hex])
+        for (let hex of steps) {
+            game.history.restore(snapshot)
+            if (game.move(hex) && this.survives(turns-1)) {
+                game.history.restore(snapshot)
+                return true
+            }
+        }
+        game.history.restore(snapshot)
+        return false
+    }
+
+    // Commands worth trying from the current position
+    candidates(): Command[] {
+        const {game} = this
+        const commands: Command[] = []
+
+        commands.push({ type: 'move', hex: game.exitCell.hex })
+        game.pickups.forEach(pickup => {
+            commands.push({ type: 'move', hex: pickup.cell.hex })
+        })
+        game.playerCell.neighbors.filter(cell => cell.isEmpty).forEach(cell => {
+            commands.push({ type: 'move', hex: cell.hex })
+        })
+
+        if (ABILITIES.teleport.isReady(game)) {
+            const targets = game.teleportTargets.filter(cell => cell.isSafe)
+            targets.sort((a, b) => Hex.distance(a.hex, game.exitCell.hex) - Hex.distance(b.hex, game.exitCell.hex))
+            targets.slice(0, TELEPORT_CANDIDATES).forEach(cell => {
+                commands.push({ type: 'ability', ability: 'teleport', targets: [cell.hex] })
+            })
+        }
+
+        if (ABILITIES.push.isReady(game))
+            commands.push({ type: 'ability', ability: 'push', targets: [] })
+
+        // Holding off whichever enemy is closest
+        const stunTargets = ABILITIES.stun.isReady(game) ? ABILITIES.stun.targetCells(game, []) : []
+        if (stunTargets.length) {
+            const field = game.distanceField()
+            const nearest = stunTargets.reduce((a, b) => field.distance(b) < field.distance(a) ? b : a)
+            commands.push({ type: 'ability', ability: 'stun', targets: [nearest.hex] })
+        }
+
+        if (!game.isEndgame) {
+            // Walls across the next step of whichever enemies are closest
+            const seen: Set<string> = new Set()
+            const field = game.distanceField()
+            const enemies = game.enemies.filter(enemy => field.distance(enemy.cell) > 1)
+            enemies.sort((a, b) => field.distance(a.cell) - field.distance(b.cell))
+            enemies.slice(0, BARRIER_ENEMIES).forEach(enemy => {
+                const path = enemy.path
+                path.slice(0, Math.min(1, path.length-1)).forEach(cell => {
+                    for (let axis = 0; axis < 3; axis++) {
+                        const from = this.farthestCell(cell, axis)
+                        const to = this.farthestCell(cell, axis+3)
+                        const key = game.barrierLine(from, to).map(c => c.hex.key).join(";")
+                        if (!key || seen.has(key)) continue
+                        seen.add(key)
+                        commands.push({ type: 'ability', ability: 'barrier', targets: [from.hex, to.hex] })
+                    }
+                })
+            })
+        }
+
+        return commands
+    }
+
+    // Checked through a method so the compiler doesn't narrow game.state for the rest of the search
+    hasWon(): boolean {
+        return this.game.state === 'success' || this.game.state === 'final'
+    }
+
+    // Head for the exit every turn, for up to this many turns or until the floor is over either way.
+    // Returns the moves made.
+    walkOut(turns: number): Command[] {
+        const {game} = this
+        const moves: Command[] = []
+        while (game.state === 'game' && moves.length < turns) {
+            const command: Command = { type: 'move', hex: game.exitCell.hex }
+            if (!game.execute(command)) break
+            moves.push(command)
+        }
+        return moves
+    }
+
+    // Rough number of turns left to win from the current position. Every enemy that could catch the
+    // player on the way to the exit will likely cost a few turns of walling; ones too far behind can be
+    // left alone, and once none can reach the player at all, a fast move finishes the floor.
+    estimate(): number {
+        const {game} = this
+        const field = game.distanceField()
+        if (game.isSafe) return 1
+
+        const distance = field.reaches(game.exitCell) ? field.distance(game.exitCell) : TELEPORT_RANGE
+        const threats = game.enemies.filter(enemy =>
+            !enemy.isDefeated && game.distanceField(enemy.type.phase).distance(enemy.cell) <= (distance + 1) * enemy.type.speed
+        ).length
+        return threats * 3 + (game.inventory.teleport > 0 ? Math.max(1, distance - TELEPORT_RANGE) : distance)
+    }
+
+    // Last open cell in a straight line from start, for drawing a wall as far as it will go
+    farthestCell(start: Cell, direction: number): Cell {
+        let cell = start
+        while (true) {
+            const next = this.game.hexGrid.get(cell.hex.neighbor(direction))
+            if (!next || !next.isEmpty) return cell
+            cell = next
+        }
+    }
+
+    stateKey(): string {
+        const {game} = this
+        const barriers = game.cells.filter(cell => cell.terrain.kind === 'barrier')
+            .map(cell => cell.hex.key + (cell.expiresIn !== undefined ? `~${cell.expiresIn}` : ""))
+        return [
+            game.playerCell.hex.key,
+            game.enemies.map(enemy => enemy.cell.hex.key + (enemy.isAwake ? "" : "z") + (enemy.isStunned ? "!" : "")).join(";"),
+            barriers.join(";"),
+            game.pickups.map(pickup => pickup.cell.hex.key + pickup.kind).join(";"),
+            ITEM_KINDS.map(kind => game.inventory[kind]).join(","),
+            game.barrierEnergy
+        ].join("|")
+    }
+
+    // The search plays moves on the real game, so put everything back afterwards
+    @action withRestore<T>(callback: () => T): T {
+        const {history} = this.game
+        const root = history.snapshot()
+        const past = history.past.slice()
+        const future = history.future.slice()
+        const {isRecording} = this.game
+        this.game.isRecording = false
+
+        try {
+            return callback()
+        } finally {
+            history.restore(root)
+            history.past = past
+            history.future = future
+            this.game.isRecording = isRecording
+        }
+    }
+
+    search(priority: (node: SearchNode, turns: number) => number, tryWalkingOut: boolean): Solution {
+        return this.withRestore(() => this.bestFirst(priority, tryWalkingOut))
+    }
+
+    // Expands positions in order of priority until a win turns up or the budget runs out. Only the
+    // candidates() from each position are tried, so running out of positions finds no win among those
+    // rather than proving there's none.
+    bestFirst(priority: (node: SearchNode, turns: number) => number, tryWalkingOut: boolean): Solution {
+        const {game} = this
+        const {history} = game
+        const {maxTurns, maxNodes} = this.options
+        const root = history.snapshot()
+
+        const frontier = new PriorityQueue<SearchNode>()
+        const visited: Set<string> = new Set([this.stateKey()])
+        frontier.push({ snapshot: root, commands: [] }, 0)
+
+        let nodes = 0
+        let exhausted = false
+        let result: Solution|undefined
+
+        while (frontier.length > 0 && result === undefined) {
+            const node = frontier.pop()
+            if (node.commands.length >= maxTurns) continue
+
+            // Walking straight out is the cheapest win to check for, and often all that's left to do
+            // once the nearest enemies are walled off
+            history.restore(node.snapshot)
+            const walk = tryWalkingOut ? this.walkOut(Math.min(maxTurns - node.commands.length, maxNodes - nodes)) : []
+            nodes += walk.length
+            if (this.hasWon()) {
+                const commands = node.commands.concat(walk)
+                result = { solvable: true, turns: commands.length, commands: commands, nodes: nodes }
+                break
+            }
+
+            history.restore(node.snapshot)
+            for (let command of this.candidates()) {
+                if (nodes >= maxNodes) {
+                    exhausted = true
+                    break
+                }
+
+                history.restore(node.snapshot)
+                if (!game.execute(command)) continue
+                nodes += 1
+
+                const commands = node.commands.concat([command])
+                if (game.state === 'success' || game.state === 'final') {
+                    result = { solvable: true, turns: commands.length, commands: commands, nodes: nodes }
+                    break
+                } else if (game.state !== 'game') {
+                    continue
+                }
+
+                const key = this.stateKey()
+                if (visited.has(key)) continue
+                visited.add(key)
+
+                const child = { snapshot: history.snapshot(), commands: commands }
+                frontier.push(child, priority(child, commands.length))
+            }
+
+            if (exhausted) break
+        }
+
+        if (result) return result
+        return { solvable: exhausted ? undefined : false, nodes: nodes }
+    }
+}
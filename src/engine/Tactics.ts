@@ -0,0 +1,104 @@
+import Cell from './Cell'
+import Enemy from './Enemy'
+import Game from './Game'
+import DistanceField from './DistanceField'
+
+// How the enemies on a floor decide their moves, from simplest to smartest
+export type TacticsKind = 'greedy'|'coordinated'|'flanking'
+
+export interface Tactics {
+    kind: TacticsKind
+    description: string
+    // Move every enemy for one turn, stopping early if one catches the player
+    moveEnemies(game: Game): void
+}
+
+function isCaught(game: Game): boolean {
+    return game.enemies.some(enemy => enemy.cell === game.playerCell)
+}
+
+// Best next cell for an enemy heading down a distance field. Enemies fan out rather than queue:
+// among equally good steps they take the one with the fewest other enemies around it, and one stuck
+// behind another steps aside if that opens up a way round.
+function chooseStep(game: Game, enemy: Enemy, field: DistanceField): Cell|undefined {
+    const distance = field.distance(enemy.cell)
+    const crowding = (cell: Cell) => game.enemies.filter(other => other !== enemy && cell.neighbors.indexOf(other.cell) !== -1).length
+    const byPreference = (a: Cell, b: Cell) => field.distance(a) - field.distance(b) || crowding(a) - crowding(b)
+
+    const closer = enemy.cell.neighbors.filter(cell => field.distance(cell) < distance)
+    const open = closer.filter(cell => enemy.canEnter(cell)).sort(byPreference)
+    if (open.length) return open[0]
+
+    const isCongested = closer.some(cell => game.enemies.some(other => other.cell === cell))
+    if (!isCongested) return undefined
+
+    const around = enemy.cell.neighbors.filter(cell =>
+        field.distance(cell) === distance && enemy.canEnter(cell) &&
+        cell.neighbors.some(next => field.distance(next) < distance && next.isEmpty)
+    )
+    return around.sort(byPreference)[0]
+}
+
+// Awake enemies, nearest the player first, so those in front clear the way for those behind
+function wakeEnemies(game: Game): Enemy[] {
+    const awake = game.enemies.filter(enemy => enemy.wake())
+    const distance = (enemy: Enemy) => game.distanceField(enemy.type.phase).distance(enemy.cell)
+    return awake.sort((a, b) => distance(a) - distance(b) || 0)
+}
+
+// Step each enemy along its own field, a step at a time so faster enemies get their extra steps last
+function moveTogether(game: Game, enemies: Enemy[], fieldFor: (enemy: Enemy) => DistanceField) {
+    const steps = Math.max(0, ...enemies.map(enemy => enemy.type.speed))
+    for (let step = 0; step < steps; step++) {
+        for (let enemy of enemies) {
+            if (enemy.type.speed <= step) continue
+            const next = chooseStep(game, enemy, fieldFor(enemy))
+            if (next) enemy.cell = next
+            if (isCaught(game)) return
+        }
+    }
+}
+
+// Where an enemy can get onto the player's way to the exit no later than the player would, nearest the player first
+function interceptCell(game: Game, enemy: Enemy): Cell|undefined {
+    const route = game.distanceField().pathTo(game.exitCell)
+    const reach = new DistanceField(game.hexGrid, enemy.cell, enemy.type.phase, game.terrainVersion)
+    return route.find((cell, i) => reach.distance(cell) <= i+1)
+}
+
+export const TACTICS: { [kind: string]: Tactics } = {
+    greedy: {
+        kind: 'greedy',
+        description: "Each enemy takes the next step of its own shortest path, waiting if another is in the way.",
+        moveEnemies(game: Game) {
+            for (let enemy of game.enemies) {
+                enemy.takeTurn()
+                if (isCaught(game)) return
+            }
+        }
+    },
+    coordinated: {
+        kind: 'coordinated',
+        description: "Enemies move together, making way for each other and spreading out around crowds.",
+        moveEnemies(game: Game) {
+            moveTogether(game, wakeEnemies(game), enemy => game.distanceField(enemy.type.phase))
+        }
+    },
+    flanking: {
+        kind: 'flanking',
+        description: "The nearest enemy gives chase while the rest move to cut off your way to the exit.",
+        moveEnemies(game: Game) {
+            const enemies = wakeEnemies(game)
+            const fields: Map<Enemy, DistanceField> = new Map()
+            enemies.slice(1).forEach(enemy => {
+                // Close enough to catch the player outright, so no need to go round
+                if (game.distanceField(enemy.type.phase).distance(enemy.cell) <= 2) return
+                const target = interceptCell(game, enemy)
+                if (target) fields.set(enemy, new DistanceField(game.hexGrid, target, enemy.type.phase, game.terrainVersion))
+            })
+            moveTogether(game, enemies, enemy => fields.get(enemy) || game.distanceField(enemy.type.phase))
+        }
+    }
+}
+
+export const TACTICS_KINDS = Object.keys(TACTICS) as TacticsKind[]
@@ -0,0 +1,40 @@
+import {COLOR_EMPTY, COLOR_PILLAR, COLOR_BARRIER, COLOR_WATER} from './constants'
+
+export type TerrainKind = 'empty'|'pillar'|'barrier'|'water'
+
+// What a cell is made of. Rules only ever look at these properties, never at the color,
+// so new kinds of terrain just need an entry here.
+export interface TerrainType {
+    kind: TerrainKind
+    name: string
+    color: string
+    // Whether the player and enemies can stand on it
+    pathable: boolean
+    // Whether it stops line of sight
+    blocksSight: boolean
+    // Whether abilities can clear it away again
+    destructible: boolean
+    // Whether phasing enemies can slip through it
+    phaseable: boolean
+}
+
+export const TERRAIN_TYPES: { [kind: string]: TerrainType } = {
+    empty: {
+        kind: 'empty', name: "Empty", color: COLOR_EMPTY,
+        pathable: true, blocksSight: false, destructible: false, phaseable: false
+    },
+    pillar: {
+        kind: 'pillar', name: "Pillar", color: COLOR_PILLAR,
+        pathable: false, blocksSight: true, destructible: true, phaseable: false
+    },
+    barrier: {
+        kind: 'barrier', name: "Barrier", color: COLOR_BARRIER,
+        pathable: false, blocksSight: true, destructible: true, phaseable: true
+    },
+    water: {
+        kind: 'water', name: "Water", color: COLOR_WATER,
+        pathable: false, blocksSight: false, destructible: false, phaseable: false
+    }
+}
+
+export const TERRAIN_KINDS = Object.keys(TERRAIN_TYPES) as TerrainKind[]
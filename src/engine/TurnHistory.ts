@@ -0,0 +1,101 @@
+import {observable, computed, action} from 'mobx'
+import Cell from './Cell'
+import {TerrainType} from './TerrainType'
+import {FloorStats} from './RunStats'
+import {Pickup, Inventory} from './Ability'
+import Enemy, {EnemySnapshot} from './Enemy'
+import Game, {GameState} from './Game'
+
+// Everything a player action can change, captured before the action so it can be stepped back
+export interface TurnSnapshot {
+    playerCell: Cell
+    enemies: EnemySnapshot[]
+    terrain: TerrainType[]
+    expiries: (number|undefined)[]
+    remembered: (TerrainType|undefined)[]
+    barrierEnergy?: number
+    floorStats: FloorStats
+    pickups: Pickup[]
+    inventory: Inventory
+    state: GameState
+}
+
+export default class TurnHistory {
+    game: Game
+    @observable.shallow past: TurnSnapshot[] = []
+    @observable.shallow future: TurnSnapshot[] = []
+
+    constructor(game: Game) {
+        this.game = game
+    }
+
+    @computed get canUndo(): boolean {
+        return this.past.length > 0
+    }
+
+    @computed get canRedo(): boolean {
+        return this.future.length > 0
+    }
+
+    snapshot(): TurnSnapshot {
+        const {game} = this
+        return {
+            playerCell: game.playerCell,
+            enemies: game.enemies.map(enemy => enemy.snapshot()),
+            terrain: game.cells.map(cell => cell.terrain),
+            expiries: game.cells.map(cell => cell.expiresIn),
+            remembered: game.cells.map(cell => cell.remembered),
+            barrierEnergy: game.barrierEnergy,
+            floorStats: game.floorStats,
+            pickups: game.pickups,
+            inventory: game.inventory,
+            state: game.state
+        }
+    }
+
+    @action.bound restore(snapshot: TurnSnapshot) {
+        const {game} = this
+        game.playerCell = snapshot.playerCell
+        game.enemies = snapshot.enemies.map(enemy => Enemy.fromSnapshot(game, enemy))
+        game.cells.forEach((cell, i) => {
+            if (cell.terrain !== snapshot.terrain[i])
+                cell.terrain = snapshot.terrain[i]
+            if (cell.expiresIn !== snapshot.expiries[i])
+                cell.expiresIn = snapshot.expiries[i]
+            if (cell.remembered !== snapshot.remembered[i])
+                cell.remembered = snapshot.remembered[i]
+        })
+        game.barrierEnergy = snapshot.barrierEnergy
+        game.floorStats = snapshot.floorStats
+        game.pickups = snapshot.pickups
+        game.inventory = snapshot.inventory
+        game.state = snapshot.state
+    }
+
+    // Call before a player action mutates the game
+    @action.bound record() {
+        this.past.push(this.snapshot())
+        this.future = []
+    }
+
+    @action.bound undo() {
+        const snapshot = this.past.pop()
+        if (!snapshot) return
+        this.game.recordEntry({ type: 'undo' })
+        this.future.push(this.snapshot())
+        this.restore(snapshot)
+    }
+
+    @action.bound redo() {
+        const snapshot = this.future.pop()
+        if (!snapshot) return
+        this.game.recordEntry({ type: 'redo' })
+        this.past.push(this.snapshot())
+        this.restore(snapshot)
+    }
+
+    @action.bound clear() {
+        this.past = []
+        this.future = []
+    }
+}
@@ -0,0 +1,13 @@
+export const COLOR_EMPTY = "#333"
+export const COLOR_PLAYER = "lightgreen"
+export const COLOR_BARRIER = "cyan"
+export const COLOR_PILLAR = "orange"
+export const COLOR_WATER = "#2a6f97"
+export const COLOR_TELEPORT = "yellow"
+export const COLOR_EXIT = "violet"
+export const COLOR_ENEMY = "red"
+
+export const TELEPORT_RANGE = 8
+export const PUSH_DISTANCE = 2
+export const STUN_RANGE = 3
+export const DISSOLVE_RANGE = 2
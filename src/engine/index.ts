@@ -0,0 +1,23 @@
+// The game rules, independent of any rendering. Safe to import under Node.
+export * from './constants'
+export {default as Random} from './Random'
+export {default as Hex, HexGrid} from './Hex'
+export {default as Cell} from './Cell'
+export {default as DistanceField} from './DistanceField'
+export {default as Enemy, EnemySnapshot} from './Enemy'
+export {EnemyType, EnemyKind, ENEMY_TYPES, ENEMY_KINDS} from './EnemyType'
+export {Tactics, TacticsKind, TACTICS, TACTICS_KINDS} from './Tactics'
+export {Ability, AbilityKind, ItemKind, Inventory, Pickup, ABILITIES, ABILITY_KINDS, ITEM_KINDS, emptyInventory} from './Ability'
+export {Layout, LayoutKind, LAYOUTS, LAYOUT_KINDS, layoutsFor} from './Layout'
+export {Campaign, FloorSpec, PillarSpec, BarrierSpec, DEFAULT_CAMPAIGN, parseCampaign, pickEnemyTypes, enemyKindsUpTo} from './Campaign'
+export {TerrainType, TerrainKind, TERRAIN_TYPES, TERRAIN_KINDS} from './TerrainType'
+export {BoardLayout, EditTool, parseBoard} from './Board'
+export {BoardShape, PLACEMENT_KEYWORDS, parseShape, shapeHexes, shapeRadius, placementHex} from './BoardShape'
+export {default as TurnHistory, TurnSnapshot} from './TurnHistory'
+export {default as Game, GameState, GameMode, Command} from './Game'
+export {SavedGame, SAVE_VERSION, upgradeSave} from './SavedGame'
+export {Replay, ReplayFloor, ReplayEntry, REPLAY_VERSION, encodeEntry, decodeEntry, parseReplay, ReplayPlayer} from './Replay'
+export {FloorStats, RunSummary, emptyFloorStats, totalStats, scoreRun} from './RunStats'
+export {dailyDateFor, dailyShareText} from './Daily'
+export {default as Solver, SolverOptions, Solution} from './Solver'
+export {Bot, Observation, RunResult, TournamentStats, BOTS, observe, legalActions, playRun, tournamentStats} from './Bot'
@@ -0,0 +1,27 @@
+import {Replay, parseReplay} from './engine'
+
+declare const window: any
+declare const document: any
+
+// Replays are shared as base64 of their JSON, so they survive being pasted into chat or an issue
+export function replayToString(replay: Replay): string {
+    return window.btoa(window.unescape(encodeURIComponent(JSON.stringify(replay))))
+}
+
+// Accepts either a share string or the JSON from an exported file
+export function replayFromString(text: string): Replay {
+    const trimmed = text.trim()
+    const json = trimmed[0] === '{' ? trimmed : decodeURIComponent(window.escape(window.atob(trimmed)))
+    return parseReplay(JSON.parse(json))
+}
+
+export function downloadReplay(replay: Replay) {
+    const blob = new window.Blob([JSON.stringify(replay)], { type: 'application/json' })
+    const link = document.createElement('a')
+    link.href = window.URL.createObjectURL(blob)
+    link.download = `pathspire-replay-${replay.seed}.json`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    window.URL.revokeObjectURL(link.href)
+}
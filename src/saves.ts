@@ -0,0 +1,113 @@
+import {Game, SavedGame, RunSummary, upgradeSave} from './engine'
+
+declare const window: any
+
+const SAVE_KEY = "pathspire.save"
+const SETTINGS_KEY = "pathspire.settings"
+const LEADERBOARD_KEY = "pathspire.leaderboard"
+const LEADERBOARD_SIZE = 10
+const DAILY_KEY = "pathspire.daily"
+
+// The scored attempt at a day's daily run; later attempts that day are only practice
+export interface DailyResult {
+    date: string
+    // Game.startedAt of the attempt, to tell it apart from practice runs
+    startedAt: number
+    // Filled in when the attempt ends; until then it's only claimed
+    run?: RunSummary
+    share?: string
+}
+
+export interface Settings {
+    animations: boolean
+    // Theme.id of the board's color palette
+    theme: string
+    // Glyphs and patterns on the board alongside colors
+    symbols: boolean
+    highContrast: boolean
+}
+
+export function saveGame(game: Game) {
+    try {
+        window.localStorage.setItem(SAVE_KEY, JSON.stringify(Object.assign(game.serialize(), { replay: game.replay })))
+    } catch (err) {
+        // Storage may be full or disabled (e.g. private browsing); the run just won't persist
+    }
+}
+
+export function loadSavedGame(): SavedGame|undefined {
+    try {
+        const json = window.localStorage.getItem(SAVE_KEY)
+        if (!json) return undefined
+        return upgradeSave(JSON.parse(json))
+    } catch (err) {
+        return undefined
+    }
+}
+
+export function clearSavedGame() {
+    try {
+        window.localStorage.removeItem(SAVE_KEY)
+    } catch (err) {}
+}
+
+// Player preferences, kept apart from the run so starting a new one doesn't reset them
+export function loadSettings(): Settings {
+    // Respect the system's reduced motion and contrast settings until the player picks for themselves
+    const prefers = (query: string) => !!window.matchMedia && window.matchMedia(query).matches
+    const defaults: Settings = { animations: !prefers('(prefers-reduced-motion: reduce)'), theme: 'classic', symbols: false, highContrast: prefers('(prefers-contrast: more)') }
+    try {
+        const json = window.localStorage.getItem(SETTINGS_KEY)
+        return Object.assign(defaults, json ? JSON.parse(json) : {})
+    } catch (err) {
+        return defaults
+    }
+}
+
+export function saveSettings(settings: Settings) {
+    try {
+        window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+    } catch (err) {}
+}
+
+// Best runs so far, highest score first
+export function loadLeaderboard(): RunSummary[] {
+    try {
+        const json = window.localStorage.getItem(LEADERBOARD_KEY)
+        return json ? JSON.parse(json) : []
+    } catch (err) {
+        return []
+    }
+}
+
+// Where a run would place on the leaderboard, counting from 0
+export function leaderboardRank(leaderboard: RunSummary[], run: RunSummary): number {
+    return leaderboard.filter(other => other.score >= run.score).length
+}
+
+// Add a run that has ended, keeping only the best few. Returns the updated leaderboard.
+export function recordRun(run: RunSummary): RunSummary[] {
+    const leaderboard = loadLeaderboard()
+    leaderboard.splice(leaderboardRank(leaderboard, run), 0, run)
+    leaderboard.splice(LEADERBOARD_SIZE)
+    try {
+        window.localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(leaderboard))
+    } catch (err) {}
+    return leaderboard
+}
+
+export function loadDailyResult(date: string): DailyResult|undefined {
+    try {
+        const json = window.localStorage.getItem(DAILY_KEY)
+        const result = json ? JSON.parse(json) as DailyResult : undefined
+        return result && result.date === date ? result : undefined
+    } catch (err) {
+        return undefined
+    }
+}
+
+export function saveDailyResult(result: DailyResult) {
+    try {
+        window.localStorage.setItem(DAILY_KEY, JSON.stringify(result))
+    } catch (err) {}
+}
@@ -0,0 +1,59 @@
+import {TerrainKind, EnemyKind, ItemKind, TERRAIN_TYPES, ENEMY_TYPES, COLOR_PLAYER, COLOR_TELEPORT, COLOR_EXIT, COLOR_ENEMY} from './engine'
+
+// Everything drawn in its own color: each kind of terrain, enemy and pickup, the player, the exit,
+// and "danger" for highlighting anything that would get the player caught
+export type Role = TerrainKind|EnemyKind|ItemKind|'player'|'exit'|'danger'
+
+export interface Theme {
+    id: string
+    name: string
+    colors: { [role: string]: string }
+}
+
+export const THEMES: Theme[] = [
+    {
+        id: 'classic', name: "Classic",
+        colors: {
+            empty: TERRAIN_TYPES.empty.color, pillar: TERRAIN_TYPES.pillar.color, barrier: TERRAIN_TYPES.barrier.color, water: TERRAIN_TYPES.water.color,
+            player: COLOR_PLAYER, exit: COLOR_EXIT, teleport: COLOR_TELEPORT, danger: COLOR_ENEMY,
+            push: "sandybrown", stun: "lightsteelblue", dissolve: "khaki",
+            chaser: ENEMY_TYPES.chaser.color, sentry: ENEMY_TYPES.sentry.color, fast: ENEMY_TYPES.fast.color, phaser: ENEMY_TYPES.phaser.color
+        }
+    },
+    // Okabe & Ito's palette, which keeps the player and enemies apart for red-green color blindness
+    {
+        id: 'redGreen', name: "Red-green safe",
+        colors: {
+            empty: "#333", pillar: "#999999", barrier: "#56b4e9", water: "#0072b2",
+            player: "#f0e442", exit: "#cc79a7", teleport: "#ffffff", danger: "#d55e00",
+            push: "#f5c77e", stun: "#a6d8f5", dissolve: "#7fcfb9",
+            chaser: "#d55e00", sentry: "#8f3f00", fast: "#e69f00", phaser: "#009e73"
+        }
+    },
+    // For blue-yellow color blindness: the player and enemies sit on opposite sides of the red-cyan axis
+    {
+        id: 'blueYellow', name: "Blue-yellow safe",
+        colors: {
+            empty: "#333", pillar: "#a0a0a0", barrier: "#b39ddb", water: "#264653",
+            player: "#00ced1", exit: "#ff8fd0", teleport: "#ffffff", danger: "#e63946",
+            push: "#ffd6a5", stun: "#caffbf", dissolve: "#bdb2ff",
+            chaser: "#e63946", sentry: "#9d0208", fast: "#ff7f50", phaser: "#f4a261"
+        }
+    }
+]
+
+export function findTheme(id: string): Theme {
+    return THEMES.find(theme => theme.id === id) || THEMES[0]
+}
+
+// Drawn over pieces when symbols are turned on, so nothing depends on color alone
+export const GLYPHS: { [role: string]: string } = {
+    player: "@", exit: "▲", teleport: "◆", push: "»", stun: "Z", dissolve: "○",
+    chaser: "C", sentry: "S", fast: "F", phaser: "P"
+}
+
+// Fill patterns for terrain when symbols are turned on
+export const PATTERNS: { [role: string]: string } = {
+    barrier: 'hatch',
+    water: 'waves'
+}
@@ -0,0 +1,109 @@
+import {Game, Hex, ABILITIES, encodeEntry, decodeEntry, parseBoard, parseCampaign} from '../src/engine'
+import {CHASER_AHEAD, CHASER_ADJACENT, CRYSTAL, startGame, cellAt} from './fixtures'
+
+declare const require: any
+const {describe, it} = require('node:test')
+const assert = require('assert')
+
+function give(game: Game, kind: string, count: number = 1) {
+    game.inventory = Object.assign({}, game.inventory, { [kind]: count })
+}
+
+describe("push", () => {
+    it("shoves an adjacent enemy back before it moves", () => {
+        const game = startGame([CHASER_ADJACENT])
+        give(game, 'push')
+        assert.strictEqual(game.useAbility('push', []), true)
+        assert.strictEqual(game.inventory.push, 0)
+        assert.strictEqual(game.enemies[0].cell.hex.key, "-1,0,1")
+        assert.strictEqual(game.state, 'game')
+    })
+
+    it("stops short of anything in the way", () => {
+        const game = startGame([Object.assign({}, CHASER_ADJACENT, { terrain: { "0,0,0": "pillar" } })])
+        give(game, 'push')
+        assert.deepStrictEqual(ABILITIES.push.preview(game, []).map(cell => cell.hex.key), ["-1,0,1"])
+    })
+
+    it("can't be used without an enemy next to the player", () => {
+        const game = startGame([CHASER_AHEAD])
+        give(game, 'push')
+        assert.strictEqual(ABILITIES.push.isReady(game), false)
+        assert.strictEqual(game.useAbility('push', []), false)
+    })
+})
+
+describe("stun", () => {
+    it("keeps an enemy in place for one turn", () => {
+        const game = startGame([CHASER_AHEAD])
+        give(game, 'stun')
+        assert.strictEqual(game.useAbility('stun', [Hex.fromKey("-1,0,1")]), true)
+        const enemy = game.enemies[0]
+        assert.strictEqual(enemy.cell.hex.key, "-1,0,1")
+        assert.strictEqual(enemy.isStunned, false)
+
+        game.move(cellAt(game, "-3,1,2").hex)
+        assert.notStrictEqual(enemy.cell.hex.key, "-1,0,1")
+    })
+
+    it("only targets enemies in range", () => {
+        const game = startGame([CRYSTAL])
+        give(game, 'stun')
+        assert.strictEqual(game.useAbility('stun', [Hex.fromKey("3,-3,0")]), false)
+        assert.strictEqual(game.inventory.stun, 1)
+    })
+})
+
+describe("dissolve", () => {
+    it("clears a nearby pillar", () => {
+        const game = startGame([{ radius: 3, terrain: { "-1,0,1": "pillar" }, player: "-3,0,3", exit: "3,0,-3" }])
+        give(game, 'dissolve')
+        assert.strictEqual(game.useAbility('dissolve', [Hex.fromKey("-1,0,1")]), true)
+        assert.strictEqual(cellAt(game, "-1,0,1").terrain.kind, 'empty')
+        assert.strictEqual(game.inventory.dissolve, 0)
+    })
+
+    it("won't touch cells that aren't walls", () => {
+        const game = startGame([{ radius: 3, player: "-3,0,3", exit: "3,0,-3" }])
+        give(game, 'dissolve')
+        assert.strictEqual(game.useAbility('dissolve', [Hex.fromKey("-2,0,2")]), false)
+    })
+
+    it("keeps a walled in player from being stuck while held", () => {
+        const game = startGame([{ radius: 3, terrain: { "-2,-1,3": "pillar", "-3,1,2": "pillar" }, player: "-3,0,3", exit: "3,0,-3" }])
+        give(game, 'dissolve')
+        game.barrier(Hex.fromKey("-2,0,2"), Hex.fromKey("-2,0,2"))
+        assert.strictEqual(game.state, 'game')
+    })
+})
+
+describe("pickups", () => {
+    it("add a charge of their item when picked up", () => {
+        const game = startGame([Object.assign({}, CRYSTAL, { crystals: undefined, pickups: [{ hex: "-2,0,2", kind: "stun" }] })])
+        game.move(cellAt(game, "-2,0,2").hex)
+        assert.strictEqual(game.inventory.stun, 1)
+        assert.strictEqual(game.inventory.teleport, 0)
+        assert.strictEqual(game.pickups.length, 0)
+    })
+
+    it("read boards that only list crystals as teleports", () => {
+        const layout = parseBoard(CRYSTAL)
+        assert.deepStrictEqual(layout.pickups, [{ hex: "-2,0,2", kind: "teleport" }])
+        assert.throws(() => parseBoard(Object.assign({}, CRYSTAL, { pickups: [{ hex: "-2,0,2", kind: "gem" }] })), /pickup/)
+    })
+
+    it("are scattered by generated floors", () => {
+        const campaign = parseCampaign({ id: 'items', floors: [{ radius: 5, enemies: { count: 0 }, crystals: 1, pickups: { push: 2 }, player: "bottom", exit: "top" }] })
+        const game = new Game({ campaign: campaign, seed: 1, floor: 1 })
+        assert.deepStrictEqual(game.pickups.map(pickup => pickup.kind).sort(), ['push', 'push', 'teleport'])
+        assert.throws(() => parseCampaign({ id: 'bad', floors: [{ radius: 5, enemies: { count: 0 }, pickups: { gem: 1 } }] }), /gem/)
+    })
+})
+
+describe("ability replay entries", () => {
+    it("round trip through their codes", () => {
+        const entries = ["p", "s:1,0,-1", "d:0,1,-1", "t:2,0,-2", "b:0,0,0:2,0,-2"]
+        entries.forEach(text => assert.strictEqual(encodeEntry(decodeEntry(text)), text))
+        assert.throws(() => decodeEntry("s"), /Invalid/)
+    })
+})
@@ -0,0 +1,99 @@
+import {Game, Hex, parseCampaign, parseBoard, parseShape, shapeHexes, shapeRadius, placementHex} from '../src/engine'
+
+declare const require: any
+const {describe, it} = require('node:test')
+const assert = require('assert')
+
+const keys = (hexes: Hex[]) => hexes.map(hex => hex.key)
+
+describe("shapeHexes", () => {
+    it("lays a hexagon out ring by ring from the center", () => {
+        assert.deepStrictEqual(keys(shapeHexes({ type: 'hexagon', radius: 3 })), keys(Hex.rings(Hex.zero, 0, 4)))
+    })
+
+    it("fills a parallelogram and a rectangle centered on Hex.zero", () => {
+        const parallelogram = shapeHexes({ type: 'parallelogram', width: 5, height: 3 })
+        const rectangle = shapeHexes({ type: 'rectangle', width: 9, height: 5 })
+        assert.strictEqual(parallelogram.length, 15)
+        assert.strictEqual(rectangle.length, 45)
+        assert.ok(keys(parallelogram).indexOf("0,0,0") !== -1)
+        assert.ok(keys(rectangle).indexOf("0,0,0") !== -1)
+        assert.strictEqual(new Set(keys(rectangle)).size, 45)
+    })
+
+    it("keeps every column of a rectangle the same height on screen", () => {
+        const rows = shapeHexes({ type: 'rectangle', width: 6, height: 4 }).map(hex => hex.q + hex.r/2)
+        assert.ok(Math.max(...rows) - Math.min(...rows) <= 4)
+    })
+
+    it("takes the cells marked in a mask", () => {
+        const hexes = shapeHexes({ type: 'mask', rows: ["###", "#.#", "###"] })
+        assert.strictEqual(hexes.length, 8)
+        assert.ok(keys(hexes).indexOf("0,0,0") === -1)
+    })
+})
+
+describe("parseShape", () => {
+    it("rejects shapes that are unknown or too small", () => {
+        assert.throws(() => parseShape({ type: 'circle' }), /unknown type/)
+        assert.throws(() => parseShape({ type: 'hexagon', radius: 1 }), /radius/)
+        assert.throws(() => parseShape({ type: 'rectangle', width: 2, height: 2 }), /at least 7/)
+        assert.throws(() => parseShape({ type: 'mask', rows: ["##"] }), /at least 7/)
+    })
+})
+
+describe("placementHex", () => {
+    it("matches the old fixed start and exit on a radius 7 hexagon", () => {
+        const hexes = shapeHexes({ type: 'hexagon', radius: 7 })
+        assert.strictEqual(placementHex(hexes, 'bottom').key, "6,0,-6")
+        assert.strictEqual(placementHex(hexes, 'top').key, "-6,0,6")
+        assert.strictEqual(placementHex(hexes, 'center').key, "0,0,0")
+    })
+
+    it("scales with the board and stays off the edge", () => {
+        const hexes = shapeHexes({ type: 'hexagon', radius: 4 })
+        assert.strictEqual(placementHex(hexes, 'bottom').key, "3,0,-3")
+        assert.strictEqual(shapeRadius(hexes), 4)
+
+        const rectangle = shapeHexes({ type: 'rectangle', width: 11, height: 5 })
+        const left = placementHex(rectangle, 'left')
+        const right = placementHex(rectangle, 'right')
+        assert.strictEqual(left.r, -4)
+        assert.strictEqual(right.r, 4)
+    })
+})
+
+describe("shaped floors", () => {
+    it("deal generated boards onto any shape", () => {
+        const campaign = parseCampaign({ id: 'shapes', floors: [
+            { shape: { type: 'rectangle', width: 13, height: 7 }, enemies: { count: 2 }, crystals: 1, player: "left", exit: "right" },
+            { shape: { type: 'mask', rows: ["..#####..", ".#######.", "#########", "#########", ".#######.", "..#####.."] }, enemies: { count: 1 }, player: "bottom", exit: "random" }
+        ] })
+        for (let floor = 1; floor <= 2; floor++) {
+            const game = new Game({ campaign: campaign, seed: 3, floor: floor })
+            const board = new Set(keys(game.boardHexes))
+            assert.strictEqual(game.cells.length, board.size)
+            assert.ok(board.has(game.playerCell.hex.key) && board.has(game.exitCell.hex.key))
+            game.enemies.forEach(enemy => assert.ok(board.has(enemy.cell.hex.key)))
+        }
+    })
+
+    it("round trip through a save and an exported board", () => {
+        const campaign = parseCampaign({ id: 'shapes', floors: [
+            { shape: { type: 'parallelogram', width: 8, height: 6 }, enemies: { count: 1 }, player: "left", exit: "right" }
+        ] })
+        const game = new Game({ campaign: campaign, seed: 5 })
+        const loaded = new Game({ campaign: campaign, saved: game.serialize() })
+        assert.deepStrictEqual(keys(loaded.boardHexes), keys(game.boardHexes))
+        assert.strictEqual(loaded.playerCell.hex.key, game.playerCell.hex.key)
+
+        const board = parseBoard(JSON.parse(JSON.stringify(game.exportBoard())))
+        assert.deepStrictEqual(board.shape, game.shape)
+    })
+
+    it("still read boards and saves that only have a radius", () => {
+        const board = parseBoard({ radius: 3, player: "-3,0,3", exit: "3,0,-3" })
+        assert.deepStrictEqual(board.shape, { type: 'hexagon', radius: 3 })
+        assert.throws(() => parseBoard({ radius: 3, player: "-4,0,4", exit: "3,0,-3" }), /not on the board/)
+    })
+})
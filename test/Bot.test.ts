@@ -0,0 +1,102 @@
+import {Game, Hex, Cell, Command, TELEPORT_RANGE, BOTS, observe, legalActions, playRun, tournamentStats} from '../src/engine'
+import {OPEN, CHASER_AHEAD, BEHIND_PILLAR, startGame, boardCampaign, cellAt} from './fixtures'
+
+declare const require: any
+const {describe, it} = require('node:test')
+const assert = require('assert')
+
+function ofType(actions: Command[], type: string): Command[] {
+    return actions.filter(command => (command.type === 'move' ? 'move' : command.ability) === type)
+}
+
+function wallKey(cells: Cell[]): string {
+    return cells.map(cell => cell.hex.key).sort().join(";")
+}
+
+describe("observe", () => {
+    it("describes the board with hex keys", () => {
+        const game = startGame([CHASER_AHEAD])
+        const observation = observe(game)
+        assert.strictEqual(observation.player, "-3,0,3")
+        assert.strictEqual(observation.exit, "3,0,-3")
+        assert.strictEqual(observation.cells.length, game.cells.length)
+        assert.deepStrictEqual(observation.enemies, [{ hex: "-1,0,1", kind: 'chaser', isAwake: true, isStunned: false }])
+        assert.strictEqual(observation.teleports, 0)
+    })
+
+    it("leaves out what the fog hides", () => {
+        const game = startGame([{ board: BEHIND_PILLAR, sight: 4 }])
+        const observation = observe(game)
+        assert.deepStrictEqual(observation.enemies, [])
+        assert.ok(observation.cells.length < game.cells.length)
+    })
+})
+
+describe("legalActions", () => {
+    it("steps to open neighbors", () => {
+        const game = startGame([CHASER_AHEAD])
+        const moves = ofType(legalActions(game), 'move').map(command => command.type === 'move' && command.hex.key)
+        assert.deepStrictEqual(moves.sort(), ["-2,-1,3", "-2,0,2", "-3,1,2"])
+    })
+
+    it("lists each wall the player can afford once", () => {
+        const game = startGame([{ board: OPEN, barriers: { energy: 3 } }])
+        const walls = ofType(legalActions(game), 'barrier').map(command => {
+            const targets = command.type === 'ability' ? command.targets.map(hex => game.hexGrid.get(hex)) : []
+            return wallKey(game.barrierLine(targets[0], targets[1]))
+        })
+
+        const expected: Set<string> = new Set()
+        game.cells.forEach(from => game.cells.forEach(to => {
+            if (game.canPlaceBarrier(from, to))
+                expected.add(wallKey(game.barrierLine(from, to)))
+        }))
+        assert.strictEqual(walls.length, new Set(walls).size)
+        assert.deepStrictEqual(walls.slice().sort(), Array.from(expected).sort())
+    })
+
+    it("teleports anywhere open within range once a crystal is held", () => {
+        const game = startGame([CHASER_AHEAD])
+        assert.strictEqual(ofType(legalActions(game), 'teleport').length, 0)
+
+        game.inventory = Object.assign({}, game.inventory, { teleport: 1 })
+        const teleports = ofType(legalActions(game), 'teleport')
+        assert.strictEqual(teleports.length, game.teleportTargets.length)
+        teleports.forEach(command => {
+            const target = command.type === 'ability' && command.targets[0]
+            assert.ok(target && Hex.distance(target, game.playerCell.hex) < TELEPORT_RANGE)
+        })
+    })
+
+    it("only lists actions the game accepts", () => {
+        const game = startGame([CHASER_AHEAD])
+        game.inventory = Object.assign({}, game.inventory, { teleport: 1 })
+        const root = game.history.snapshot()
+        legalActions(game).forEach(command => {
+            game.history.restore(root)
+            assert.ok(game.execute(command), JSON.stringify(command))
+        })
+    })
+})
+
+describe("playRun", () => {
+    it("plays every floor of a campaign it can win", () => {
+        const result = playRun(BOTS.solver(), boardCampaign([OPEN, OPEN]), 1)
+        assert.deepStrictEqual(result, { seed: 1, floor: 2, outcome: 'final', turns: 2 })
+    })
+
+    it("rejects an illegal action", () => {
+        const bot = { name: 'wall', act: () => ({ type: 'move', hex: Hex.fromKey("9,0,-9") } as Command) }
+        assert.throws(() => playRun(bot, boardCampaign([CHASER_AHEAD]), 1), /illegal/)
+    })
+
+    it("sums up a tournament", () => {
+        const stats = tournamentStats([
+            { seed: 1, floor: 2, outcome: 'final', turns: 10 },
+            { seed: 2, floor: 1, outcome: 'failure', turns: 4 },
+            { seed: 3, floor: 1, outcome: 'stuck', turns: 3 },
+            { seed: 4, floor: 2, outcome: 'timeout', turns: 300 }
+        ])
+        assert.deepStrictEqual(stats, { runs: 4, wins: 1, winRate: 0.25, averageFloor: 1.5, failures: 1, stuck: 1, timeouts: 1 })
+    })
+})
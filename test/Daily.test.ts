@@ -0,0 +1,20 @@
+import {RunSummary, emptyFloorStats, dailyShareText} from '../src/engine'
+
+declare const require: any
+const {describe, it} = require('node:test')
+const assert = require('assert')
+
+function run(floors: { hintsUsed: number }[], floorsCleared: number): RunSummary {
+    return {
+        campaign: 'default', mode: 'daily', dailyDate: "2024-05-01", seed: 1,
+        floors: floors.map((floor, i) => Object.assign(emptyFloorStats(i+1), floor)),
+        floorsCleared: floorsCleared, finished: false, hintsUsed: 0, duration: 0, score: 0, endedAt: 0
+    }
+}
+
+describe("dailyShareText", () => {
+    it("marks floors cleared with hints apart from the rest", () => {
+        const text = dailyShareText(run([{ hintsUsed: 0 }, { hintsUsed: 2 }, { hintsUsed: 0 }], 2), 'failure', 4)
+        assert.strictEqual(text.split("\n").slice(2).join(""), "🟩🟦 🟥⬛")
+    })
+})
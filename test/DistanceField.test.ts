@@ -0,0 +1,78 @@
+import {Game, Hex, HexGrid, TERRAIN_TYPES} from '../src/engine'
+import {PILLAR, WALLED_IN, PHASER_WALLED_IN, startGame, cellAt} from './fixtures'
+
+declare const require: any
+const {describe, it} = require('node:test')
+const assert = require('assert')
+
+describe("HexGrid", () => {
+    it("stores a value per hex within its radius", () => {
+        const grid = new HexGrid<string>(2)
+        Hex.rings(Hex.zero, 0, 3).forEach(hex => grid.set(hex, hex.key))
+        assert.strictEqual(grid.size, 19)
+        assert.strictEqual(grid.get(new Hex(2, -2, 0)), "2,-2,0")
+        assert.strictEqual(grid.get(new Hex(3, -3, 0)), undefined)
+
+        const visited: string[] = []
+        grid.forEach(hex => visited.push(hex.key))
+        assert.strictEqual(new Set(visited).size, 19)
+    })
+})
+
+describe("DistanceField", () => {
+    it("agrees with pathBetween on generated floors", () => {
+        for (let floor = 1; floor <= 11; floor += 2) {
+            const game = new Game({ seed: 42, floor: floor })
+            const field = game.distanceField()
+            game.cells.forEach(cell => {
+                const path = game.pathBetween(cell, game.playerCell)
+                assert.strictEqual(field.distance(cell), cell === game.playerCell ? 0 : path.length || Infinity, cell.hex.key)
+                assert.strictEqual(field.pathFrom(cell).length, path.length)
+            })
+        }
+    })
+
+    it("walks each path one step at a time from the start to the goal", () => {
+        const game = startGame([PILLAR])
+        const field = game.distanceField()
+        const path = field.pathFrom(game.exitCell)
+        assert.strictEqual(path.length, 7)
+        assert.strictEqual(path[path.length-1], game.playerCell)
+        assert.ok(path.every(cell => cell.isPathable))
+
+        const back = field.pathTo(game.exitCell)
+        assert.strictEqual(back[back.length-1], game.exitCell)
+        assert.strictEqual(Hex.distance(back[0].hex, game.playerCell.hex), 1)
+    })
+
+    it("is reused until the player moves or terrain changes", () => {
+        const game = startGame([PILLAR])
+        const field = game.distanceField()
+        assert.strictEqual(game.distanceField(), field)
+
+        cellAt(game, "1,-1,0").terrain = TERRAIN_TYPES.pillar
+        const walled = game.distanceField()
+        assert.notStrictEqual(walled, field)
+        assert.strictEqual(game.distanceField(), walled)
+
+        game.playerCell = cellAt(game, "-2,0,2")
+        assert.notStrictEqual(game.distanceField(), walled)
+    })
+
+    it("leaves out cells that are walled off", () => {
+        const game = startGame([WALLED_IN])
+        const field = game.distanceField()
+        assert.strictEqual(field.reaches(cellAt(game, "3,0,-3")), false)
+        assert.strictEqual(field.distance(cellAt(game, "3,0,-3")), Infinity)
+        assert.deepStrictEqual(field.pathFrom(cellAt(game, "3,0,-3")), [])
+    })
+
+    it("lets phasers through one barrier but not pillars", () => {
+        const game = startGame([PHASER_WALLED_IN])
+        const field = game.distanceField(1)
+        const path = field.pathFrom(cellAt(game, "-3,3,0"))
+        assert.strictEqual(path[path.length-1], game.playerCell)
+        assert.strictEqual(path.filter(cell => cell.terrain === TERRAIN_TYPES.barrier).length, 1)
+        assert.strictEqual(field.reaches(cellAt(game, "3,0,-3")), false)
+    })
+})
@@ -0,0 +1,88 @@
+import {parseCampaign} from '../src/engine'
+import {OPEN, PILLAR, BEHIND_PILLAR, startGame, cellAt} from './fixtures'
+
+declare const require: any
+const {describe, it} = require('node:test')
+const assert = require('assert')
+
+describe("Game.canSee", () => {
+    it("sees everything without fog", () => {
+        const game = startGame([PILLAR])
+        assert.strictEqual(game.hasFog, false)
+        assert.strictEqual(game.canSee(game.playerCell, game.exitCell), true)
+    })
+
+    it("sees only as far as the floor's sight", () => {
+        const game = startGame([{ board: OPEN, sight: 3 }])
+        assert.strictEqual(game.canSee(game.playerCell, cellAt(game, "0,0,0")), true)
+        assert.strictEqual(game.canSee(game.playerCell, cellAt(game, "1,0,-1")), false)
+    })
+
+    it("is blocked by pillars but not by the cells at either end", () => {
+        const game = startGame([{ board: PILLAR, sight: 6 }])
+        assert.strictEqual(game.canSee(game.playerCell, cellAt(game, "0,0,0")), true)
+        assert.strictEqual(game.canSee(game.playerCell, game.exitCell), false)
+    })
+})
+
+describe("fog of war", () => {
+    it("remembers terrain once it's out of view", () => {
+        const game = startGame([{ board: { radius: 3, terrain: { "2,0,-2": "pillar" }, player: "-1,0,1", exit: "3,-3,0" }, sight: 3 }])
+        const pillar = cellAt(game, "2,0,-2")
+        assert.strictEqual(pillar.isVisible, true)
+
+        game.move(cellAt(game, "-2,0,2").hex)
+        assert.strictEqual(pillar.isVisible, false)
+        assert.strictEqual(pillar.remembered && pillar.remembered.kind, 'pillar')
+        assert.strictEqual(cellAt(game, "3,0,-3").remembered, undefined)
+    })
+
+    it("keeps enemies out of sight from chasing, but still counts them as a threat", () => {
+        const game = startGame([{ board: BEHIND_PILLAR, sight: 4 }])
+        const enemy = game.enemies[0]
+        assert.strictEqual(enemy.isAwake, false)
+        assert.strictEqual(enemy.isDefeated, false)
+        assert.strictEqual(game.isSafe, false)
+
+        game.move(cellAt(game, "-2,0,2").hex)
+        assert.strictEqual(game.enemies[0].cell.hex.key, "1,0,-1")
+    })
+
+    it("sets enemies chasing once they see the player", () => {
+        const game = startGame([{ board: BEHIND_PILLAR, sight: 4 }])
+        game.move(cellAt(game, "-3,1,2").hex)
+        const enemy = game.enemies[0]
+        assert.strictEqual(enemy.isAwake, true)
+        assert.strictEqual(enemy.cell.hex.key, "0,0,0")
+        assert.strictEqual(enemy.isDefeated, false)
+        assert.strictEqual(game.isSafe, false)
+    })
+
+    it("takes a single step towards the exit at the start of a floor", () => {
+        const game = startGame([{ board: BEHIND_PILLAR, sight: 4 }])
+        const start = game.playerCell
+        assert.ok(game.move(game.exitCell.hex))
+        assert.strictEqual(game.state, 'game')
+        assert.ok(start.neighbors.indexOf(game.playerCell) !== -1)
+    })
+
+    it("doesn't count enemies that never spotted the player as defeated", () => {
+        const game = startGame([{ board: BEHIND_PILLAR, sight: 4 }])
+        game.move(cellAt(game, "-2,0,2").hex)
+        assert.strictEqual(game.enemies[0].isAwake, false)
+        assert.strictEqual(game.floorStats.enemiesDefeated, 0)
+    })
+
+    it("forgets what was seen on an undone turn", () => {
+        const game = startGame([{ board: { radius: 3, player: "-3,0,3", exit: "3,0,-3" }, sight: 2 }])
+        game.move(cellAt(game, "-2,0,2").hex)
+        assert.ok(cellAt(game, "0,0,0").remembered)
+
+        game.history.undo()
+        assert.strictEqual(cellAt(game, "0,0,0").remembered, undefined)
+    })
+
+    it("rejects a sight that isn't positive", () => {
+        assert.throws(() => parseCampaign({ id: 'bad', floors: [{ board: OPEN, sight: 0 }] }), /sight/)
+    })
+})
@@ -0,0 +1,216 @@
+import {Game, Cell, Hex, parseCampaign} from '../src/engine'
+import {OPEN, PILLAR, CHASER_AHEAD, WALLED_IN, PHASER_WALLED_IN, CRYSTAL, POCKET, startGame, cellAt} from './fixtures'
+
+declare const require: any
+const {describe, it} = require('node:test')
+const assert = require('assert')
+
+const keys = (cells: Cell[]) => cells.map(cell => cell.hex.key)
+
+function assertConnected(start: Cell, path: Cell[]) {
+    let previous = start
+    path.forEach(cell => {
+        assert.strictEqual(Hex.distance(previous.hex, cell.hex), 1, `${previous.hex.key} to ${cell.hex.key} is not a step`)
+        previous = cell
+    })
+}
+
+describe("Game.pathBetween", () => {
+    it("takes the straight line across an open board, leaving out the start", () => {
+        const game = startGame([OPEN])
+        const path = game.pathBetween(game.playerCell, game.exitCell)
+        assert.deepStrictEqual(keys(path), ["-2,0,2", "-1,0,1", "0,0,0", "1,0,-1", "2,0,-2", "3,0,-3"])
+    })
+
+    it("goes around pillars", () => {
+        const game = startGame([PILLAR])
+        const path = game.pathBetween(game.playerCell, game.exitCell)
+        assert.strictEqual(path.length, 7)
+        assert.ok(keys(path).indexOf("0,0,0") === -1)
+        assertConnected(game.playerCell, path)
+        assert.strictEqual(path[path.length-1], game.exitCell)
+    })
+
+    it("is empty when the goal is walled off", () => {
+        const game = startGame([WALLED_IN])
+        assert.deepStrictEqual(game.pathBetween(game.playerCell, cellAt(game, "3,0,-3")), [])
+    })
+
+    it("can end on a blocked goal", () => {
+        const game = startGame([PILLAR])
+        const path = game.pathBetween(game.playerCell, cellAt(game, "0,0,0"))
+        assert.strictEqual(path.length, 3)
+        assert.strictEqual(path[path.length-1].hex.key, "0,0,0")
+    })
+
+    it("ignores enemies in the way", () => {
+        const game = startGame([CHASER_AHEAD])
+        const path = game.pathBetween(game.playerCell, game.exitCell)
+        assert.ok(keys(path).indexOf("-1,0,1") !== -1)
+    })
+})
+
+describe("Cell.lineTo", () => {
+    it("runs all the way over open cells", () => {
+        const game = startGame([OPEN])
+        assert.strictEqual(game.playerCell.lineTo(game.exitCell).length, 7)
+    })
+
+    it("stops before the first blocked cell", () => {
+        const game = startGame([PILLAR])
+        assert.deepStrictEqual(keys(game.playerCell.lineTo(game.exitCell)), ["-3,0,3", "-2,0,2", "-1,0,1"])
+    })
+
+    it("is empty when starting on a blocked cell", () => {
+        const game = startGame([PILLAR])
+        assert.deepStrictEqual(cellAt(game, "0,0,0").lineTo(game.exitCell), [])
+    })
+})
+
+describe("Enemy.isDefeated", () => {
+    it("is false while the enemy can reach the player", () => {
+        const game = startGame([CHASER_AHEAD])
+        const enemy = game.enemies[0]
+        assert.strictEqual(enemy.isDefeated, false)
+        assert.strictEqual(enemy.path[enemy.path.length-1], game.playerCell)
+    })
+
+    it("is true for enemies walled in by pillars or barriers", () => {
+        const game = startGame([WALLED_IN])
+        assert.deepStrictEqual(game.enemies.map(enemy => enemy.isDefeated), [true, true])
+        assert.strictEqual(game.isSafe, true)
+    })
+
+    it("is false for a phaser behind a wall one barrier thick", () => {
+        const game = startGame([PHASER_WALLED_IN])
+        assert.deepStrictEqual(game.enemies.map(enemy => enemy.isDefeated), [true, false])
+        assert.strictEqual(game.isSafe, false)
+    })
+
+    it("updates when a barrier cuts the enemy off", () => {
+        const game = startGame([Object.assign({}, WALLED_IN, { terrain: { "2,1,-3": "pillar", "2,0,-2": "pillar" } })])
+        const enemy = game.enemies[0]
+        assert.strictEqual(enemy.isDefeated, false)
+        assert.ok(game.barrier(Hex.fromKey("3,-1,-2"), Hex.fromKey("3,-1,-2")))
+        assert.strictEqual(enemy.cell.hex.key, "3,0,-3")
+        assert.strictEqual(enemy.isDefeated, true)
+    })
+})
+
+describe("Game.move", () => {
+    it("won't step onto an enemy", () => {
+        const game = startGame([CHASER_AHEAD])
+        game.playerCell = cellAt(game, "-2,0,2")
+        assert.strictEqual(game.move(game.exitCell.hex), false)
+        assert.strictEqual(game.playerCell.hex.key, "-2,0,2")
+        assert.strictEqual(game.history.past.length, 0)
+    })
+
+    it("takes a single step towards the exit while an enemy can reach the player", () => {
+        const game = startGame([CRYSTAL])
+        assert.ok(game.move(game.exitCell.hex))
+        assert.strictEqual(game.playerCell.hex.key, "-2,0,2")
+    })
+
+    it("goes straight to the exit when no enemy can reach the player", () => {
+        const game = startGame([WALLED_IN, OPEN])
+        assert.ok(game.move(game.exitCell.hex))
+        assert.strictEqual(game.playerCell, game.exitCell)
+        assert.strictEqual(game.state, 'success')
+    })
+
+    it("only steps to cells other than the exit or a crystal, even when safe", () => {
+        const game = startGame([OPEN, OPEN])
+        assert.ok(game.move(Hex.fromKey("0,0,0")))
+        assert.strictEqual(game.playerCell.hex.key, "-2,0,2")
+    })
+
+    it("never fast moves on the finale", () => {
+        const game = startGame([{ board: OPEN, finale: true }])
+        assert.ok(game.move(game.exitCell.hex))
+        assert.strictEqual(game.playerCell.hex.key, "-2,0,2")
+        assert.strictEqual(game.state, 'game')
+    })
+})
+
+describe("Game.endTurn", () => {
+    it("ends in success on reaching the exit of an early floor", () => {
+        const game = startGame([OPEN, OPEN])
+        game.playerCell = cellAt(game, "2,0,-2")
+        assert.ok(game.move(game.exitCell.hex))
+        assert.strictEqual(game.state, 'success')
+    })
+
+    it("ends in final on reaching the exit of the last floor", () => {
+        const game = startGame([OPEN, OPEN], 2)
+        assert.ok(game.move(game.exitCell.hex))
+        assert.strictEqual(game.state, 'final')
+    })
+
+    it("ends in final on reaching the exit of the finale", () => {
+        const game = startGame([{ board: OPEN, finale: true }, OPEN])
+        game.playerCell = cellAt(game, "2,0,-2")
+        assert.ok(game.move(game.exitCell.hex))
+        assert.strictEqual(game.state, 'final')
+    })
+
+    it("ends in failure when an enemy reaches the player", () => {
+        const game = startGame([CHASER_AHEAD, OPEN])
+        assert.ok(game.move(game.exitCell.hex))
+        assert.strictEqual(game.enemies[0].cell, game.playerCell)
+        assert.strictEqual(game.state, 'failure')
+    })
+
+    it("leaves the exit reachable before enemies move", () => {
+        const game = startGame([CHASER_AHEAD, OPEN])
+        game.playerCell = cellAt(game, "2,0,-2")
+        game.enemies[0].cell = cellAt(game, "3,-1,-2")
+        assert.ok(game.move(game.exitCell.hex))
+        assert.strictEqual(game.state, 'success')
+    })
+
+    it("ends stuck when the player walls themselves off with no teleports", () => {
+        const game = startGame([POCKET, OPEN])
+        assert.ok(game.barrier(Hex.fromKey("-2,0,2"), Hex.fromKey("-2,0,2")))
+        assert.strictEqual(game.state, 'stuck')
+    })
+
+    it("isn't stuck while the player has a teleport", () => {
+        const game = startGame([POCKET, OPEN])
+        game.inventory = Object.assign({}, game.inventory, { teleport: 1 })
+        assert.ok(game.barrier(Hex.fromKey("-2,0,2"), Hex.fromKey("-2,0,2")))
+        assert.strictEqual(game.state, 'game')
+    })
+
+    it("picks up a crystal the player lands on", () => {
+        const game = startGame([CRYSTAL, OPEN])
+        assert.ok(game.move(Hex.fromKey("-2,0,2")))
+        assert.strictEqual(game.inventory.teleport, 1)
+        assert.strictEqual(game.pickups.length, 0)
+        assert.strictEqual(game.state, 'game')
+    })
+
+    it("moves every enemy once per turn", () => {
+        const game = startGame([CRYSTAL, OPEN])
+        const before = Hex.distance(game.enemies[0].cell.hex, Hex.fromKey("-3,1,2"))
+        assert.ok(game.move(Hex.fromKey("-3,1,2")))
+        assert.strictEqual(Hex.distance(game.enemies[0].cell.hex, game.playerCell.hex), before - 1)
+    })
+})
+
+describe("Game.placeCell", () => {
+    const walledIn = (pillars: Hex[]) => parseCampaign({ id: 'walled', floors: [
+        { radius: 3, enemies: { count: 0 }, crystals: 0, pillars: { pattern: 'fixed', hexes: pillars.map(hex => hex.key) }, player: "center", exit: "random" }
+    ] })
+
+    it("puts a random exit on an open cell near the player when there's none farther", () => {
+        const game = new Game({ campaign: walledIn(Hex.rings(Hex.zero, 2, 4)), seed: 1 })
+        assert.strictEqual(game.playerCell.hex.key, "0,0,0")
+        assert.strictEqual(Hex.distance(game.exitCell.hex, game.playerCell.hex), 1)
+    })
+
+    it("throws when pillars leave no open cell to place on", () => {
+        const campaign = walledIn(Hex.rings(Hex.zero, 1, 4).concat([Hex.zero]))
+        assert.throws(() => new Game({ campaign: campaign, seed: 1 }), /No open cell/)
+    })
+})
@@ -0,0 +1,69 @@
+import {Hex} from '../src/engine'
+
+declare const require: any
+const {describe, it} = require('node:test')
+const assert = require('assert')
+
+const keys = (hexes: Hex[]) => hexes.map(hex => hex.key)
+
+describe("Hex.ring", () => {
+    it("is just the center at radius 0", () => {
+        assert.deepStrictEqual(keys(Hex.ring(Hex.zero, 0)), ["0,0,0"])
+    })
+
+    it("has 6 * radius distinct hexes, all at that distance", () => {
+        const center = new Hex(2, -1, -1)
+        for (let radius = 1; radius <= 4; radius++) {
+            const ring = Hex.ring(center, radius)
+            assert.strictEqual(ring.length, 6 * radius)
+            assert.strictEqual(new Set(keys(ring)).size, ring.length)
+            ring.forEach(hex => assert.strictEqual(Hex.distance(center, hex), radius))
+        }
+    })
+})
+
+describe("Hex.rings", () => {
+    it("covers every hex from the start radius up to but not including the end radius", () => {
+        const hexes = Hex.rings(Hex.zero, 0, 4)
+        assert.strictEqual(hexes.length, 1 + 6 + 12 + 18)
+        assert.strictEqual(new Set(keys(hexes)).size, hexes.length)
+        assert.ok(hexes.every(hex => Hex.distance(Hex.zero, hex) < 4))
+    })
+
+    it("leaves out the inner rings", () => {
+        const hexes = Hex.rings(Hex.zero, 2, 3)
+        assert.deepStrictEqual(keys(hexes), keys(Hex.ring(Hex.zero, 2)))
+    })
+
+    it("is empty when the range is", () => {
+        assert.deepStrictEqual(Hex.rings(Hex.zero, 3, 3), [])
+    })
+})
+
+describe("Hex.lineBetween", () => {
+    it("is a single hex between a hex and itself", () => {
+        const hex = new Hex(1, 1, -2)
+        assert.deepStrictEqual(keys(Hex.lineBetween(hex, hex)), [hex.key])
+    })
+
+    it("follows a straight axis exactly", () => {
+        assert.deepStrictEqual(keys(Hex.lineBetween(new Hex(-2, 0, 2), new Hex(2, 0, -2))),
+            ["-2,0,2", "-1,0,1", "0,0,0", "1,0,-1", "2,0,-2"])
+    })
+
+    it("steps between neighbors from one end to the other, off axis too", () => {
+        const pairs = [
+            [new Hex(0, 0, 0), new Hex(3, -1, -2)],
+            [new Hex(-3, 3, 0), new Hex(2, -3, 1)],
+            [new Hex(1, 2, -3), new Hex(-4, 1, 3)]
+        ]
+        pairs.forEach(([a, b]) => {
+            const line = Hex.lineBetween(a, b)
+            assert.strictEqual(line.length, Hex.distance(a, b) + 1)
+            assert.strictEqual(line[0].key, a.key)
+            assert.strictEqual(line[line.length-1].key, b.key)
+            for (let i = 1; i < line.length; i++)
+                assert.strictEqual(Hex.distance(line[i-1], line[i]), 1)
+        })
+    })
+})
@@ -0,0 +1,69 @@
+import {Game, Random, parseCampaign, shapeHexes, LAYOUTS, LAYOUT_KINDS, layoutsFor} from '../src/engine'
+import {cellAt} from './fixtures'
+
+declare const require: any
+const {describe, it} = require('node:test')
+const assert = require('assert')
+
+function layoutGame(pillars: any, seed: number): Game {
+    const campaign = parseCampaign({ id: 'layouts', floors: [{ radius: 7, enemies: { count: 0 }, pillars: pillars, player: "bottom", exit: "top" }] })
+    return new Game({ campaign: campaign, seed: seed, floor: 1 })
+}
+
+describe("LAYOUTS", () => {
+    it("keep to the board, whatever its shape", () => {
+        const shapes = [{ type: 'hexagon', radius: 7 }, { type: 'rectangle', width: 13, height: 7 }]
+        shapes.forEach(shape => {
+            const board = shapeHexes(shape as any)
+            const keys = new Set(board.map(hex => hex.key))
+            LAYOUT_KINDS.forEach(kind => {
+                const pillars = LAYOUTS[kind].generate(board, new Random(1))
+                assert.ok(pillars.every(hex => keys.has(hex.key)), `${kind} on a ${shape.type}`)
+            })
+        })
+    })
+
+    it("lay out the same pillars from the same seed", () => {
+        const board = shapeHexes({ type: 'hexagon', radius: 7 })
+        LAYOUT_KINDS.forEach(kind => {
+            const keys = (seed: number) => LAYOUTS[kind].generate(board, new Random(seed)).map(hex => hex.key)
+            assert.deepStrictEqual(keys(5), keys(5), kind)
+        })
+    })
+
+    it("always leave a way from the player to the exit", () => {
+        LAYOUT_KINDS.forEach(kind => {
+            for (let seed = 1; seed <= 8; seed++) {
+                const game = layoutGame({ pattern: 'random', layouts: [kind] }, seed)
+                assert.ok(game.pathBetween(game.playerCell, game.exitCell).length > 0, `${kind} with seed ${seed}`)
+            }
+        })
+    })
+})
+
+describe("layoutsFor", () => {
+    it("unlocks layouts as the floors go up", () => {
+        assert.deepStrictEqual(layoutsFor(1), ['rings', 'rocks'])
+        assert.deepStrictEqual(layoutsFor(8), LAYOUT_KINDS)
+        assert.ok(layoutsFor(5).indexOf('maze') === -1)
+    })
+
+    it("sticks to the layouts a floor lists", () => {
+        assert.deepStrictEqual(layoutsFor(1, ['caves']), ['caves'])
+    })
+})
+
+describe("pillar patterns", () => {
+    it("clear a way through when the pillars wall the exit in", () => {
+        const pillars = { pattern: 'fixed', hexes: ["2,1,-3", "2,0,-2", "3,-1,-2"] }
+        const campaign = parseCampaign({ id: 'walled', floors: [{ radius: 3, enemies: { count: 0 }, pillars: pillars, player: "-3,0,3", exit: "3,0,-3" }] })
+        const game = new Game({ campaign: campaign, seed: 1, floor: 1 })
+        assert.strictEqual(game.exitCell, cellAt(game, "3,0,-3"))
+        assert.ok(game.pathBetween(game.playerCell, game.exitCell).length > 0)
+    })
+
+    it("reject unknown layouts", () => {
+        assert.throws(() => layoutGame({ pattern: 'random', layouts: ['lava'] }, 1), /lava/)
+        assert.throws(() => layoutGame({ pattern: 'random', layouts: [] }, 1), /layout/)
+    })
+})
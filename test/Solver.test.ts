@@ -0,0 +1,100 @@
+import {Game, Solver} from '../src/engine'
+import {OPEN, CHASER_AHEAD, CHASER_ADJACENT, SINGLE_FILE, FAR_CORNER, startGame} from './fixtures'
+
+declare const require: any
+const {describe, it} = require('node:test')
+const assert = require('assert')
+
+describe("Solver.solve", () => {
+    it("wins an open board with a single fast move", () => {
+        const game = startGame([OPEN])
+        const solution = new Solver(game).solve()
+        assert.strictEqual(solution.solvable, true)
+        assert.strictEqual(solution.turns, 1)
+        assert.deepStrictEqual(solution.commands, [{ type: 'move', hex: game.exitCell.hex }])
+    })
+
+    it("proves a board can't be won once every line has been tried", () => {
+        const game = startGame([CHASER_AHEAD])
+        assert.strictEqual(new Solver(game, { maxNodes: 2000 }).solve().solvable, false)
+    })
+
+    it("can't tell either way when the budget runs out first", () => {
+        const game = startGame([CHASER_AHEAD])
+        const solution = new Solver(game, { maxNodes: 50 }).solve()
+        assert.strictEqual(solution.solvable, undefined)
+        assert.strictEqual(solution.nodes, 50)
+    })
+
+    it("puts the game back as it was", () => {
+        const game = startGame([FAR_CORNER])
+        const before = game.serialize()
+        new Solver(game).solve()
+        assert.deepStrictEqual(game.serialize(), before)
+        assert.strictEqual(game.history.canUndo, false)
+        assert.strictEqual(game.isRecording, true)
+    })
+})
+
+describe("Solver.minimumTurns", () => {
+    it("walls off the enemy in the way before heading out", () => {
+        const solution = new Solver(startGame([FAR_CORNER])).minimumTurns()
+        assert.strictEqual(solution.turns, 2)
+        assert.strictEqual(solution.commands && solution.commands[0].type, 'ability')
+    })
+
+    it("finds a shorter line than walking straight out", () => {
+        const game = startGame([SINGLE_FILE])
+        assert.strictEqual(new Solver(game).solve().turns, 3)
+        assert.strictEqual(new Solver(game).minimumTurns().turns, 2)
+    })
+})
+
+describe("Solver.hint", () => {
+    it("gives the first move of a winning line", () => {
+        const game = startGame([FAR_CORNER])
+        const solution = new Solver(game).solve()
+        assert.deepStrictEqual(new Solver(game).hint(), solution.commands && solution.commands[0])
+    })
+
+    it("has nothing to give when every move is caught", () => {
+        assert.strictEqual(new Solver(startGame([CHASER_ADJACENT])).hint(), undefined)
+    })
+})
+
+describe("Solver.survives", () => {
+    it("looks for a way to stay free for the turns asked", () => {
+        assert.strictEqual(new Solver(startGame([OPEN])).survives(3), true)
+        assert.strictEqual(new Solver(startGame([CHASER_ADJACENT])).survives(1), false)
+    })
+})
+
+describe("Solver.candidates", () => {
+    it("tries the exit and every open neighbor", () => {
+        const game = startGame([OPEN])
+        const candidates = new Solver(game).candidates()
+        assert.deepStrictEqual(candidates[0], { type: 'move', hex: game.exitCell.hex })
+        assert.strictEqual(candidates.length, 1 + game.playerCell.neighbors.length)
+        assert.ok(candidates.every(command => command.type === 'move'))
+    })
+
+    it("tries walls across the enemies' way to the player", () => {
+        const candidates = new Solver(startGame([FAR_CORNER])).candidates()
+        assert.ok(candidates.some(command => command.type === 'ability' && command.ability === 'barrier'))
+    })
+})
+
+describe("dealing floors", () => {
+    it("keeps every enemy the floor asks for, even when the search can't decide", () => {
+        const floors = [{ seed: 1, floor: 9 }, { seed: 1, floor: 11 }, { seed: 4, floor: 4 }, { seed: 5, floor: 9 }]
+        floors.forEach(options => {
+            const game = new Game(options)
+            assert.strictEqual(game.enemies.length, game.numEnemies)
+        })
+    })
+
+    it("deals the same floor every time", () => {
+        const game = new Game({ seed: 1, floor: 9 })
+        assert.deepStrictEqual(new Game({ seed: 1, floor: 9 }).serialize().enemies, game.serialize().enemies)
+    })
+})
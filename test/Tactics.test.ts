@@ -0,0 +1,66 @@
+import {Game, Cell, Hex, parseCampaign} from '../src/engine'
+import {OPEN, SINGLE_FILE, FAR_CORNER, startGame} from './fixtures'
+
+declare const require: any
+const {describe, it} = require('node:test')
+const assert = require('assert')
+
+const enemyKeys = (game: Game) => game.enemies.map(enemy => enemy.cell.hex.key)
+
+// How far a cell is from the nearest cell of the route
+const distanceTo = (cell: Cell, route: Cell[]) => Math.min(...route.map(other => Hex.distance(cell.hex, other.hex)))
+
+describe("greedy tactics", () => {
+    it("are the default", () => {
+        const game = startGame([OPEN])
+        assert.strictEqual(game.floorSpec.tactics, 'greedy')
+    })
+
+    it("leave an enemy waiting behind another in its way", () => {
+        const game = startGame([{ board: SINGLE_FILE, tactics: 'greedy' }])
+        game.endTurn()
+        assert.deepStrictEqual(enemyKeys(game), ["2,0,-2", "0,0,0"])
+    })
+})
+
+describe("coordinated tactics", () => {
+    it("move the front enemy first so the one behind can follow", () => {
+        const game = startGame([{ board: SINGLE_FILE, tactics: 'coordinated' }])
+        game.endTurn()
+        assert.deepStrictEqual(enemyKeys(game), ["1,0,-1", "0,0,0"])
+    })
+
+    it("still catch the player", () => {
+        const game = startGame([{ board: FAR_CORNER, tactics: 'coordinated' }])
+        for (let i = 0; i < 3 && game.state === 'game'; i++) game.endTurn()
+        assert.strictEqual(game.state, 'failure')
+    })
+})
+
+describe("flanking tactics", () => {
+    const afterTwoTurns = (tactics: string) => {
+        const game = startGame([{ board: FAR_CORNER, tactics: tactics }])
+        const route = game.distanceField().pathTo(game.exitCell)
+        game.endTurn()
+        game.endTurn()
+        return { game: game, route: route }
+    }
+
+    it("send the nearest enemy straight at the player", () => {
+        const {game} = afterTwoTurns('flanking')
+        assert.strictEqual(game.enemies[0].cell.hex.key, "-2,-1,3")
+    })
+
+    it("send the others to cut across the player's route to the exit", () => {
+        const flanking = afterTwoTurns('flanking')
+        const greedy = afterTwoTurns('greedy')
+        assert.strictEqual(distanceTo(flanking.game.enemies[1].cell, flanking.route), 1)
+        assert.ok(distanceTo(greedy.game.enemies[1].cell, greedy.route) > 1)
+    })
+})
+
+describe("campaign tactics", () => {
+    it("reject unknown kinds", () => {
+        assert.throws(() => parseCampaign({ id: 'bad', floors: [{ board: OPEN, tactics: 'sneaky' }] }), /unknown tactics "sneaky"/)
+    })
+})
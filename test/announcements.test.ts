@@ -0,0 +1,35 @@
+import {Game, Command, Hex} from '../src/engine'
+import {describeTurn} from '../src/announcements'
+import {OPEN, CHASER_AHEAD, CRYSTAL, startGame} from './fixtures'
+
+declare const require: any
+const {describe, it} = require('node:test')
+const assert = require('assert')
+
+// Play a command and describe it as the view would
+function playAndDescribe(game: Game, command: Command): string {
+    assert.ok(game.execute(command))
+    return describeTurn(game, command, game.history.past[game.history.past.length-1])
+}
+
+describe("describeTurn", () => {
+    it("reports crystals picked up and how close things are", () => {
+        const game = startGame([CRYSTAL, OPEN])
+        const text = playAndDescribe(game, { type: 'move', hex: Hex.fromKey("-2,0,2") })
+        assert.ok(/Crystal picked up, 1 teleport ready\./.test(text), text)
+        assert.ok(/1 enemy moved\./.test(text), text)
+        assert.ok(/Exit 5 steps away\./.test(text), text)
+    })
+
+    it("reports a capture", () => {
+        const game = startGame([CHASER_AHEAD, OPEN])
+        const text = playAndDescribe(game, { type: 'move', hex: game.exitCell.hex })
+        assert.ok(/Captured by a chaotic entity!/.test(text), text)
+    })
+
+    it("reports a cleared floor", () => {
+        const game = startGame([OPEN, OPEN])
+        const text = playAndDescribe(game, { type: 'move', hex: game.exitCell.hex })
+        assert.ok(/Floor 1 cleared!/.test(text), text)
+    })
+})
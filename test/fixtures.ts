@@ -0,0 +1,107 @@
+import {Game, Cell, Hex, Campaign, parseCampaign} from '../src/engine'
+
+// Small hand-drawn boards for exercising the rules. Radius 3 has corners at
+// 3,-3,0  3,0,-3  0,3,-3  -3,3,0  -3,0,3  0,-3,3
+
+// Nothing but the player and the exit, on opposite corners
+export const OPEN = {
+    radius: 3,
+    player: "-3,0,3",
+    exit: "3,0,-3"
+}
+
+// A pillar in the middle of the straight line between the player and the exit
+export const PILLAR = {
+    radius: 3,
+    terrain: { "0,0,0": "pillar" },
+    player: "-3,0,3",
+    exit: "3,0,-3"
+}
+
+// A chaser two steps along the player's straight route to the exit
+export const CHASER_AHEAD = {
+    radius: 3,
+    player: "-3,0,3",
+    exit: "3,0,-3",
+    enemies: [{ hex: "-1,0,1", kind: "chaser" }]
+}
+
+// A chaser boxed into a corner by pillars, and another boxed in by barriers
+export const WALLED_IN = {
+    radius: 3,
+    terrain: {
+        "2,1,-3": "pillar", "2,0,-2": "pillar", "3,-1,-2": "pillar",
+        "-2,3,-1": "barrier", "-2,2,0": "barrier", "-3,2,1": "barrier"
+    },
+    player: "-3,0,3",
+    exit: "0,-3,3",
+    enemies: [{ hex: "3,0,-3", kind: "chaser" }, { hex: "-3,3,0", kind: "chaser" }]
+}
+
+// The same corners, but with a phaser behind the one-cell barrier wall
+export const PHASER_WALLED_IN = Object.assign({}, WALLED_IN, {
+    enemies: [{ hex: "3,0,-3", kind: "chaser" }, { hex: "-3,3,0", kind: "phaser" }]
+})
+
+// A crystal next to the player, with a chaser far enough away to keep the player from fast moving
+export const CRYSTAL = {
+    radius: 3,
+    player: "-3,0,3",
+    exit: "3,0,-3",
+    crystals: ["-2,0,2"],
+    enemies: [{ hex: "3,-3,0", kind: "chaser" }]
+}
+
+// The player in a corner with a single open neighbor
+export const POCKET = {
+    radius: 3,
+    terrain: { "-2,-1,3": "pillar", "-3,1,2": "pillar" },
+    player: "-3,0,3",
+    exit: "3,0,-3"
+}
+
+// Two chasers in single file along the row the player stands at the end of, the one behind listed first
+export const SINGLE_FILE = {
+    radius: 3,
+    player: "-3,0,3",
+    exit: "0,-3,3",
+    enemies: [{ hex: "2,0,-2", kind: "chaser" }, { hex: "1,0,-1", kind: "chaser" }]
+}
+
+// A chaser near the player and another in the far corner, off the straight route to the exit
+export const FAR_CORNER = {
+    radius: 3,
+    player: "-3,0,3",
+    exit: "3,0,-3",
+    enemies: [{ hex: "0,-3,3", kind: "chaser" }, { hex: "3,-3,0", kind: "chaser" }]
+}
+
+// A chaser hidden from the player behind a pillar, for playing with `sight` set. Stepping to -3,1,2 brings it into view.
+export const BEHIND_PILLAR = {
+    radius: 3,
+    terrain: { "-1,0,1": "pillar" },
+    player: "-3,0,3",
+    exit: "3,0,-3",
+    enemies: [{ hex: "1,0,-1", kind: "chaser" }]
+}
+
+// A chaser right next to the player, with room behind it to be pushed back
+export const CHASER_ADJACENT = {
+    radius: 3,
+    player: "-3,0,3",
+    exit: "0,-3,3",
+    enemies: [{ hex: "-2,0,2", kind: "chaser" }]
+}
+
+// A campaign with one floor per board; a floor is either a board or a full floor spec with a `board` field
+export function boardCampaign(floors: any[]): Campaign {
+    return parseCampaign({ id: 'fixtures', floors: floors.map(floor => floor.board ? floor : { board: floor }) })
+}
+
+export function startGame(floors: any[], floor: number = 1): Game {
+    return new Game({ campaign: boardCampaign(floors), seed: 1, floor: floor })
+}
+
+export function cellAt(game: Game, key: string): Cell {
+    return game.hexGrid.get(Hex.fromKey(key))
+}
@@ -0,0 +1,66 @@
+// Plays a bot through full runs of a campaign under Node, with no browser, and prints how it did.
+//
+//   yarn tournament <bot> [--runs 10] [--seed 1] [--campaign default]
+//
+// <bot> is one of the built-in BOTS, or the path of a JS module whose default export is a Bot or a
+// function returning one. --campaign takes a campaign id from src/campaigns or a path to a JSON file.
+import {Bot, BOTS, Campaign, DEFAULT_CAMPAIGN, parseCampaign, playRun, tournamentStats} from '../src/engine'
+
+declare const require: any
+declare const process: any
+declare const __dirname: string
+const path = require('path')
+
+function option(args: string[], name: string): string|undefined {
+    const i = args.indexOf(`--${name}`)
+    return i !== -1 ? args[i+1] : undefined
+}
+
+function loadBot(name: string): Bot {
+    if (BOTS[name]) return BOTS[name]()
+
+    const module = require(path.resolve(name))
+    const exported = module.default || module
+    const bot = typeof exported === 'function' ? exported() : exported
+    if (!bot || typeof bot.act !== 'function')
+        throw new Error(`${name} doesn't export a bot with an act() method`)
+    return bot
+}
+
+function loadCampaign(id?: string): Campaign {
+    if (id === undefined) return DEFAULT_CAMPAIGN
+    const file = /\.json$/.test(id) ? path.resolve(id) : path.join(__dirname, '../src/campaigns', `${id}.json`)
+    return parseCampaign(require(file))
+}
+
+function main(args: string[]) {
+    const name = args[0]
+    if (!name || name[0] === '-') {
+        console.log(`Usage: yarn tournament <${Object.keys(BOTS).join('|')}|path/to/bot.js> [--runs N] [--seed S] [--campaign id]`)
+        process.exit(1)
+    }
+
+    const bot = loadBot(name)
+    const campaign = loadCampaign(option(args, 'campaign'))
+    const runs = parseInt(option(args, 'runs') || "10")
+    const firstSeed = parseInt(option(args, 'seed') || "1")
+    if (!(runs > 0) || isNaN(firstSeed))
+        throw new Error("--runs and --seed must be numbers, with at least one run")
+
+    console.log(`${bot.name} playing ${campaign.name}, ${runs} runs from seed ${firstSeed}`)
+    const results = []
+    for (let i = 0; i < runs; i++) {
+        const result = playRun(bot, campaign, firstSeed + i)
+        console.log(`  seed ${result.seed}: ${result.outcome === 'final' ? "won" : result.outcome} on floor ${result.floor} after ${result.turns} turns`)
+        results.push(result)
+    }
+
+    const stats = tournamentStats(results)
+    console.log(`Win rate:      ${(stats.winRate * 100).toFixed(1)}% (${stats.wins}/${stats.runs})`)
+    console.log(`Average floor: ${stats.averageFloor.toFixed(2)} of ${campaign.floors.length}`)
+    console.log(`Failures:      ${stats.failures}`)
+    console.log(`Stuck:         ${stats.stuck}`)
+    console.log(`Timeouts:      ${stats.timeouts}`)
+}
+
+main(process.argv.slice(2))